@@ -1,8 +1,90 @@
+import type { Command } from "commander";
 import { describe, expect, it } from "vitest";
+import { createProgram } from "./program.js";
+
+const findCommand = (program: Command, name: string) => {
+	const command = program.commands.find((c) => c.name() === name);
+	if (!command) {
+		throw new Error(`No ${name} command`);
+	}
+	return command;
+};
+
+const optionFlags = (command: Command) =>
+	command.options.map((option) => option.long);
 
 describe("CLI", () => {
-	it("should have a placeholder test", () => {
-		// TODO: Add real tests for CLI functionality
-		expect(true).toBe(true);
+	it("registers every command", () => {
+		const names = createProgram()
+			.commands.map((command) => command.name())
+			.sort();
+
+		expect(names).toEqual([
+			"attach",
+			"configure",
+			"containers",
+			"dispatch",
+			"doctor",
+			"image",
+			"init",
+			"plan",
+			"review",
+			"runs",
+			"serve",
+			"shell",
+			"stop",
+			"triage",
+			"watch",
+		]);
+	});
+
+	it("keeps the batch label and the created issue's labels apart", () => {
+		const flags = optionFlags(findCommand(createProgram(), "dispatch"));
+
+		expect(flags).toEqual(
+			expect.arrayContaining([
+				"--issue",
+				"--issues",
+				"--label",
+				"--issue-label",
+				"--create-issue",
+				"--timeout",
+			]),
+		);
+	});
+
+	it("takes the run to act on as an argument", () => {
+		const program = createProgram();
+
+		for (const name of ["attach", "shell", "stop"]) {
+			const [run] = findCommand(program, name).registeredArguments;
+			expect(run.name()).toBe("run");
+			expect(run.required).toBe(true);
+		}
+		expect(optionFlags(findCommand(program, "runs"))).toContain("--keep");
+	});
+
+	it("rejects unknown commands and options", async () => {
+		const parse = async (...args: string[]) => {
+			const program = createProgram()
+				.exitOverride()
+				.configureOutput({ writeErr: () => {}, writeOut: () => {} });
+			for (const command of program.commands) {
+				command
+					.exitOverride()
+					.configureOutput({ writeErr: () => {}, writeOut: () => {} });
+			}
+			await program.parseAsync(args, { from: "user" });
+		};
+
+		await expect(parse("deploy")).rejects.toMatchObject({
+			code: "commander.unknownCommand",
+		});
+		await expect(parse("stop")).rejects.toMatchObject({
+			code: "commander.missingArgument",
+		});
+		await expect(parse("runs", "--bogus")).rejects.toMatchObject({
+			code: "commander.unknownOption",
+		});
 	});
 });
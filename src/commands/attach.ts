@@ -0,0 +1,66 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: will fix later */
+import { PassThrough } from "node:stream";
+import chalk from "chalk";
+import { ConfigManager } from "../core/config-manager.js";
+import { createContainerRuntime } from "../core/container-runtime.js";
+import { OutputRenderer } from "../core/output-renderer.js";
+import { AGENT_LOG_PATH } from "../core/result-contract.js";
+import { resolveWorkerContainer } from "../core/worker-containers.js";
+import { exitGracefully } from "../utils/cleanup-manager.js";
+import { logger } from "../utils/logger.js";
+
+interface AttachOptions {
+	raw?: boolean;
+}
+
+export async function attachCommand(
+	ref: string,
+	options: AttachOptions = {},
+): Promise<void> {
+	try {
+		const config = new ConfigManager().load();
+		const docker = createContainerRuntime(config.docker.runtime).docker;
+		const worker = await resolveWorkerContainer(docker, ref);
+		const container = docker.getContainer(worker.id);
+
+		logger.info(
+			`📺 Attached to ${chalk.cyan(worker.name)}${worker.runId ? ` (run ${worker.runId})` : ""}`,
+		);
+		console.log(chalk.gray("Press Ctrl+C to detach; the worker keeps running"));
+		console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+		// -F keeps following across the log being created after we attach
+		const exec = await container.exec({
+			Cmd: ["tail", "-n", "+1", "-F", AGENT_LOG_PATH],
+			AttachStdout: true,
+			AttachStderr: true,
+			Tty: false,
+			User: "worker",
+		});
+		const stream = await exec.start({});
+
+		// Non-JSON lines pass through, so this also reads plain text output
+		const renderer = new OutputRenderer(options.raw ? "text" : "stream-json");
+		const output = new PassThrough();
+		docker.modem.demuxStream(stream, output, new PassThrough());
+
+		output.on("data", (chunk: Buffer) => {
+			for (const line of renderer.push(chunk.toString("utf8"))) {
+				console.log(line);
+			}
+		});
+
+		await new Promise<void>((resolve, reject) => {
+			stream.on("end", () => resolve());
+			stream.on("error", reject);
+		});
+
+		for (const line of renderer.flush()) {
+			console.log(line);
+		}
+		logger.info("Worker container exited");
+	} catch (error: any) {
+		logger.error("Failed to attach:", error?.message);
+		await exitGracefully(1);
+	}
+}
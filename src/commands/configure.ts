@@ -96,6 +96,11 @@ async function listConfiguration(configManager: ConfigManager): Promise<void> {
 		printSection("Bot", config.bot);
 		printSection("Docker", config.docker);
 		printSection("Workflow", config.workflow);
+		printSection("Watch", config.watch);
+		printSection("Triage", config.triage);
+		printSection("Webhook", config.webhook);
+		printSection("Issue", config.issue);
+		printSection("Pull Request", config.pullRequest);
 		// biome-ignore lint/suspicious/noExplicitAny: will fix later
 	} catch (error: any) {
 		logger.error("Failed to load configuration:", error?.message);
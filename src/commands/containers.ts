@@ -1,6 +1,14 @@
 /** biome-ignore-all lint/suspicious/noExplicitAny: will fix later */
 import chalk from "chalk";
-import Docker from "dockerode";
+import type Docker from "dockerode";
+import { ConfigManager } from "../core/config-manager.js";
+import type { Config } from "../core/config-schema.js";
+import { readFileFromContainer } from "../core/container-files.js";
+import { createContainerRuntime } from "../core/container-runtime.js";
+import { removeEgressResources } from "../core/egress-proxy.js";
+import { FAILURE_REASON_PATH } from "../core/result-contract.js";
+import { RUN_ID_LABEL } from "../core/worker-containers.js";
+import { pruneWorkerImages, resolveWorkerImage } from "../core/worker-image.js";
 import { exitGracefully } from "../utils/cleanup-manager.js";
 import { logger } from "../utils/logger.js";
 
@@ -8,19 +16,41 @@ interface ContainerOptions {
 	all?: boolean;
 	clean?: boolean;
 	force?: boolean;
+	pruneImages?: boolean;
 }
 
 export async function containersCommand(
 	options: ContainerOptions = {},
 ): Promise<void> {
-	const docker = new Docker();
+	// Listing and cleaning up containers still works with a broken config, on
+	// the default runtime; pruning needs it to tell which image is current
+	let config: Config | undefined;
+	try {
+		config = new ConfigManager().load();
+	} catch (error: any) {
+		if (options.pruneImages) {
+			logger.error("Failed to load configuration:", error?.message);
+			await exitGracefully(1);
+			return;
+		}
+		logger.warning(
+			`Couldn't load configuration (${error?.message}), using the default container runtime`,
+		);
+	}
 
 	try {
+		const docker = createContainerRuntime(config?.docker.runtime).docker;
+
 		if (options.clean) {
 			await cleanupOrphanedContainers(docker, options.force || false);
 			return;
 		}
 
+		if (options.pruneImages && config) {
+			await pruneStaleImages(docker, config);
+			return;
+		}
+
 		await listConsWorkerContainers(docker, options.all);
 	} catch (error: any) {
 		logger.error("Failed to manage containers:", error.message);
@@ -61,7 +91,7 @@ async function listConsWorkerContainers(
 
 		console.log(`Found ${workerContainers.length} container(s):\n`);
 
-		workerContainers.forEach((container) => {
+		for (const container of workerContainers) {
 			const id = container.Id.slice(0, 12);
 			const name = container.Names[0]?.replace("/", "") || "unnamed";
 			const status = container.State;
@@ -80,6 +110,24 @@ async function listConsWorkerContainers(
 			console.log(`  ${chalk.gray("Image:")} ${container.Image}`);
 			console.log(`  ${chalk.gray("Created:")} ${created}`);
 
+			const runId = container.Labels?.[RUN_ID_LABEL];
+			if (runId) {
+				console.log(`  ${chalk.gray("Run:")} ${runId}`);
+			}
+
+			// Containers kept with --keep-on-failure record why their run failed
+			if (status === "exited") {
+				const reason = await readFileFromContainer(
+					docker.getContainer(container.Id),
+					FAILURE_REASON_PATH,
+				).catch(() => null);
+				if (reason) {
+					console.log(
+						`  ${chalk.gray("Failure:")} ${chalk.red(reason.toString("utf8").trim())}`,
+					);
+				}
+			}
+
 			if (container.Ports && container.Ports.length > 0) {
 				const ports = container.Ports.map((p) =>
 					p.PublicPort ? `${p.PublicPort}:${p.PrivatePort}` : p.PrivatePort,
@@ -88,7 +136,7 @@ async function listConsWorkerContainers(
 			}
 
 			console.log(); // Empty line between containers
-		});
+		}
 
 		// Show cleanup suggestions
 		const stoppedContainers = workerContainers.filter(
@@ -134,6 +182,9 @@ async function cleanupOrphanedContainers(
 
 		if (workerContainers.length === 0) {
 			console.log(chalk.green("✅ No containers to clean up"));
+			for (const network of await removeEgressResources(docker)) {
+				console.log(`  ${chalk.green("✅ Removed network")} ${network}`);
+			}
 			return;
 		}
 
@@ -178,9 +229,18 @@ async function cleanupOrphanedContainers(
 			console.log(); // Empty line between containers
 		}
 
+		// Egress networks outlive their worker when it was kept for inspection
+		const networks = await removeEgressResources(docker);
+		for (const network of networks) {
+			console.log(`  ${chalk.green("✅ Removed network")} ${network}`);
+		}
+
 		// Summary
 		console.log(chalk.bold("Cleanup Summary:"));
 		console.log(`  ${chalk.green("✅ Cleaned:")} ${cleaned}`);
+		if (networks.length > 0) {
+			console.log(`  ${chalk.green("✅ Networks:")} ${networks.length}`);
+		}
 		if (failed > 0) {
 			console.log(`  ${chalk.red("✖ Failed:")} ${failed}`);
 		}
@@ -193,3 +253,39 @@ async function cleanupOrphanedContainers(
 		throw error;
 	}
 }
+
+/**
+ * Remove worker images built from an older fingerprint, keeping the one the
+ * current config and devcontainer resolve to
+ */
+async function pruneStaleImages(docker: Docker, config: Config): Promise<void> {
+	console.log("\n🧹 Pruning stale constech-worker images");
+	console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+	const current = await resolveWorkerImage(config);
+	console.log(`${chalk.gray("Current image:")} ${current.tag}\n`);
+
+	const { removed, failed } = await pruneWorkerImages(
+		docker,
+		config,
+		current.tag,
+	);
+
+	if (removed.length === 0 && failed.length === 0) {
+		console.log(chalk.green("✅ No stale images found"));
+		return;
+	}
+
+	for (const tag of removed) {
+		console.log(`  ${chalk.green("✅ Removed")} ${tag}`);
+	}
+	for (const { tag, error } of failed) {
+		console.log(`  ${chalk.red("✖ Failed to remove")} ${tag}: ${error}`);
+	}
+
+	console.log(`\n${chalk.bold("Prune Summary:")}`);
+	console.log(`  ${chalk.green("✅ Removed:")} ${removed.length}`);
+	if (failed.length > 0) {
+		console.log(`  ${chalk.red("✖ Failed:")} ${failed.length}`);
+	}
+}
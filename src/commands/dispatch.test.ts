@@ -0,0 +1,78 @@
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import type { WorkflowResults } from "../core/workflow-executor.js";
+import { describeOutcome, parseIssueNumbers } from "./dispatch.js";
+
+describe("parseIssueNumbers", () => {
+	it("parses comma-separated issue numbers", () => {
+		expect(parseIssueNumbers("12, 15,#31")).toEqual([12, 15, 31]);
+	});
+
+	it("rejects anything that isn't a positive whole number", () => {
+		for (const value of ["12abc", "-3", "0", "1.5", "12,,15", ""]) {
+			expect(() => parseIssueNumbers(value)).toThrow(
+				"Invalid issue number in --issues",
+			);
+		}
+	});
+});
+
+describe("describeOutcome", () => {
+	const success = (overrides: Partial<WorkflowResults>): WorkflowResults => ({
+		startTime: new Date(),
+		success: true,
+		branchName: "feature/issue-12",
+		...overrides,
+	});
+
+	it("reports a new pull request", () => {
+		expect(
+			describeOutcome(
+				success({
+					issueNumber: 12,
+					issueCreated: true,
+					prNumber: 40,
+					prUrl: "https://github.com/acme/app/pull/40",
+				}),
+			),
+		).toEqual([
+			"Created issue #12",
+			"Pushed branch feature/issue-12",
+			"Opened PR #40 https://github.com/acme/app/pull/40",
+		]);
+	});
+
+	it("reports where local output went without claiming a pull request", () => {
+		expect(
+			describeOutcome(
+				success({
+					outputPath: join(
+						process.cwd(),
+						".constech-worker",
+						"runs",
+						"a.patch",
+					),
+				}),
+			),
+		).toEqual([
+			`Wrote ${join(".constech-worker", "runs", "a.patch")}; nothing was pushed`,
+		]);
+		expect(
+			describeOutcome(success({ localBranch: "feature/issue-12" })),
+		).toEqual(["Created local branch feature/issue-12; nothing was pushed"]);
+	});
+
+	it("reports pushes to an existing pull request", () => {
+		expect(
+			describeOutcome(
+				success({ reviewedPullRequest: 40, prNumber: 40, repliedComments: 2 }),
+			),
+		).toEqual([
+			"Pushed follow-up commits to PR #40",
+			"Replied to 2 review comment(s)",
+		]);
+		expect(
+			describeOutcome(success({ ciFixPullRequest: 40, prNumber: 40 })),
+		).toEqual(["Pushed a fix for the failing checks to PR #40"]);
+	});
+});
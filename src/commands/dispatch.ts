@@ -1,17 +1,45 @@
 /** biome-ignore-all lint/suspicious/noExplicitAny: will fix later */
+import { relative } from "node:path";
 import chalk from "chalk";
+import { z } from "zod";
+import { ClaudeMdParser } from "../core/claude-md-parser.js";
 import { ConfigManager } from "../core/config-manager.js";
-import { WorkflowExecutor } from "../core/workflow-executor.js";
+import { type Config, MAX_TIMEOUT_MINUTES } from "../core/config-schema.js";
+import { GitHubClient } from "../core/github-client.js";
+import { draftIssue } from "../core/issue-draft.js";
+import {
+	type ExecutionOptions,
+	type NewIssueOptions,
+	OUTPUT_MODES,
+	type OutputMode,
+	WorkflowExecutor,
+	type WorkflowResults,
+} from "../core/workflow-executor.js";
 import { showCompactAnimatedBanner } from "../utils/banner.js";
 import { exitGracefully } from "../utils/cleanup-manager.js";
 import { logger } from "../utils/logger.js";
+import { WorkerPool } from "../utils/worker-pool.js";
 
 interface DispatchOptions {
 	issue?: string;
+	issues?: string;
+	label?: string;
+	concurrency?: string;
 	prompt?: string;
 	createIssue?: boolean;
+	title?: string;
+	issueLabel?: string;
+	milestone?: string;
+	assignee?: string;
+	draftCriteria?: boolean;
 	reviewer?: string;
 	base?: string;
+	timeout?: string;
+	follow?: boolean;
+	keepOnFailure?: boolean;
+	output?: string;
+	pr?: string;
+	fixCi?: string;
 	force?: boolean;
 	dryRun?: boolean;
 }
@@ -19,9 +47,101 @@ interface DispatchOptions {
 export async function dispatchCommand(
 	options: DispatchOptions = {},
 ): Promise<void> {
+	const isBatch = Boolean(options.issues || options.label);
+
 	// Validate input parameters
-	if (!options.issue && !options.prompt) {
-		await exitGracefully(1, "Either --issue or --prompt must be specified");
+	if (
+		!options.issue &&
+		!options.prompt &&
+		!options.pr &&
+		!options.fixCi &&
+		!isBatch
+	) {
+		await exitGracefully(
+			1,
+			"Either --issue, --issues, --label, --pr, --fix-ci or --prompt must be specified",
+		);
+	}
+
+	for (const [flag, value] of [
+		["--pr", options.pr],
+		["--fix-ci", options.fixCi],
+	] as const) {
+		if (value === undefined) {
+			continue;
+		}
+		if (!(parseInt(value, 10) > 0)) {
+			await exitGracefully(1, `${flag} must be a pull request number`);
+		}
+		if (options.issue || options.createIssue || isBatch) {
+			await exitGracefully(
+				1,
+				`Cannot combine ${flag} with --issue, --issues, --label or --create-issue`,
+			);
+		}
+		if (options.output && options.output !== "pr") {
+			await exitGracefully(
+				1,
+				`${flag} pushes to the pull request; drop --output`,
+			);
+		}
+	}
+
+	if (options.pr && options.fixCi) {
+		await exitGracefully(1, "Cannot combine --pr with --fix-ci");
+	}
+
+	if (isBatch && (options.issue || options.prompt || options.createIssue)) {
+		await exitGracefully(
+			1,
+			"Cannot combine --issues/--label with --issue, --prompt or --create-issue",
+		);
+	}
+
+	if (options.issueLabel && !options.createIssue) {
+		await exitGracefully(
+			1,
+			"--issue-label labels the issue --create-issue creates; use --label to select issues",
+		);
+	}
+
+	if (
+		options.concurrency !== undefined &&
+		!(parseInt(options.concurrency, 10) >= 1)
+	) {
+		await exitGracefully(1, "--concurrency must be a positive number");
+	}
+
+	if (options.timeout !== undefined && parseTimeout(options.timeout) === null) {
+		await exitGracefully(
+			1,
+			`--timeout must be a positive number of minutes, at most ${MAX_TIMEOUT_MINUTES}`,
+		);
+	}
+
+	if (
+		options.output !== undefined &&
+		!OUTPUT_MODES.includes(options.output as OutputMode)
+	) {
+		await exitGracefully(
+			1,
+			`--output must be one of: ${OUTPUT_MODES.join(", ")}`,
+		);
+	}
+
+	if (options.issue && !/^#?[1-9]\d*$/.test(options.issue.trim())) {
+		await exitGracefully(
+			1,
+			`--issue must be an issue number, got "${options.issue}"`,
+		);
+	}
+
+	if (options.issues) {
+		try {
+			parseIssueNumbers(options.issues);
+		} catch (error: any) {
+			await exitGracefully(1, error?.message);
+		}
 	}
 
 	if (options.issue && options.createIssue) {
@@ -31,6 +151,19 @@ export async function dispatchCommand(
 		);
 	}
 
+	if (
+		!options.createIssue &&
+		(options.title ||
+			options.milestone ||
+			options.assignee ||
+			options.draftCriteria)
+	) {
+		await exitGracefully(
+			1,
+			"--title, --milestone, --assignee and --draft-criteria only apply with --create-issue",
+		);
+	}
+
 	// Show compact animated banner
 	await showCompactAnimatedBanner();
 
@@ -74,6 +207,12 @@ export async function dispatchCommand(
 		);
 	}
 
+	if (isBatch) {
+		// biome-ignore lint/style/noNonNullAssertion: config is validated above
+		await dispatchBatch(config!, botToken ?? "", options);
+		return;
+	}
+
 	// Determine workflow scenario
 	const scenario = determineScenario(options);
 	logger.info(`📋 Workflow: ${chalk.cyan(scenario)}`);
@@ -82,6 +221,11 @@ export async function dispatchCommand(
 		logger.info(`🎯 Target: Issue #${chalk.yellow(options.issue)}`);
 	}
 
+	const pullRequest = options.pr || options.fixCi;
+	if (pullRequest) {
+		logger.info(`🎯 Target: Pull request #${chalk.yellow(pullRequest)}`);
+	}
+
 	if (options.prompt) {
 		logger.info(`💭 Prompt: ${chalk.green(`"${options.prompt}"`)}`);
 	}
@@ -94,25 +238,36 @@ export async function dispatchCommand(
 			reviewer:
 				options.reviewer || process.env[config?.workflow.reviewerEnvVar ?? ""],
 			baseBranch: options.base || config?.project.workingBranch,
+			timeoutMinutes: options.timeout
+				? (parseTimeout(options.timeout) ?? undefined)
+				: undefined,
+			follow: options.follow,
+			keepOnFailure: options.keepOnFailure,
+			output: options.output as OutputMode | undefined,
 		});
 
+		const newIssue =
+			options.createIssue && options.prompt
+				? await resolveNewIssue(config, botToken ?? "", options.prompt, options)
+				: undefined;
+
 		// Execute workflow with internal progress tracking
-		await executor.execute({
-			issueNumber: options.issue ? parseInt(options.issue, 10) : undefined,
+		const results = await executor.execute({
+			issueNumber: options.issue
+				? parseInt(options.issue.trim().replace(/^#/, ""), 10)
+				: undefined,
 			prompt: options.prompt,
 			createIssue: options.createIssue,
+			newIssue,
+			pullRequestNumber: pullRequest ? parseInt(pullRequest, 10) : undefined,
+			fixCi: Boolean(options.fixCi),
 		});
 
 		// Show success summary
 		console.log(`\n${chalk.bgGreen.black(" SUCCESS ")}`);
 		console.log("✅ Autonomous development workflow completed");
-		console.log("📋 Check your GitHub repository for:");
-		console.log("   • New feature branch");
-		console.log("   • Pull request with proper reviewers");
-		console.log("   • Updated project status");
-
-		if (options.createIssue) {
-			console.log("   • Created GitHub issue");
+		for (const line of describeOutcome(results)) {
+			console.log(`   • ${line}`);
 		}
 	} catch (error: any) {
 		logger.error("✖ Workflow execution failed");
@@ -128,8 +283,342 @@ export async function dispatchCommand(
 	}
 }
 
+/**
+ * Collect the --create-issue flags, resolving the milestone and drafting
+ * acceptance criteria with the agent when asked to
+ */
+async function resolveNewIssue(
+	config: Config,
+	botToken: string,
+	prompt: string,
+	options: DispatchOptions,
+): Promise<NewIssueOptions> {
+	const list = (value?: string) =>
+		value
+			?.split(",")
+			.map((item) => item.trim())
+			.filter(Boolean);
+
+	const newIssue: NewIssueOptions = {
+		title: options.title,
+		labels: list(options.issueLabel),
+		assignees: list(options.assignee),
+	};
+
+	if (options.milestone) {
+		const github = new GitHubClient(botToken);
+		newIssue.milestone = await github.findMilestone(
+			config.project.owner,
+			config.project.name,
+			options.milestone,
+		);
+	}
+
+	if (options.draftCriteria || config.issue.draftAcceptanceCriteria) {
+		const baseBranch = options.base || config.project.workingBranch;
+		const parser = new ClaudeMdParser(process.cwd());
+		const instructions = await parser.readClaudeInstructions();
+
+		try {
+			const draft = await new WorkflowExecutor(config, {
+				botToken,
+				baseBranch,
+			}).analyze({
+				title: "Drafting acceptance criteria",
+				prompt: parser.generateAcceptanceCriteriaPrompt({
+					prompt,
+					workingBranch: baseBranch,
+					filteredInstructions: instructions.filtered,
+				}),
+				schema: z.object({ acceptanceCriteria: z.array(z.string()).min(1) }),
+			});
+			newIssue.acceptanceCriteria = draft.acceptanceCriteria;
+		} catch (error: any) {
+			logger.warning(
+				`Couldn't draft acceptance criteria, using the generic ones: ${error?.message}`,
+			);
+		}
+	}
+
+	return newIssue;
+}
+
+async function dispatchBatch(
+	config: Config,
+	botToken: string,
+	options: DispatchOptions,
+): Promise<void> {
+	let issueNumbers: number[];
+
+	try {
+		issueNumbers = await resolveBatchIssues(config, botToken, options);
+	} catch (error: any) {
+		await exitGracefully(1, error?.message);
+		return;
+	}
+
+	if (issueNumbers.length === 0) {
+		logger.warning("No matching issues found, nothing to dispatch");
+		return;
+	}
+
+	const concurrency = options.concurrency
+		? parseInt(options.concurrency, 10)
+		: config.workflow.concurrency;
+
+	logger.info(`📋 Workflow: ${chalk.cyan("Batch issue-based development")}`);
+	logger.info(
+		`🎯 Targets: ${issueNumbers.map((n) => chalk.yellow(`#${n}`)).join(", ")} (concurrency ${chalk.cyan(concurrency)})`,
+	);
+
+	// Build the image once up front rather than once per concurrent run
+	let image: string;
+	try {
+		image = await new WorkflowExecutor(config, { botToken }).prepareImage();
+	} catch (error: any) {
+		await exitGracefully(
+			1,
+			`Failed to prepare the worker image: ${error?.message}`,
+		);
+		return;
+	}
+
+	const pool = new WorkerPool(concurrency);
+
+	// Each run gets its own executor and container; a failing run settles
+	// with its results instead of rejecting, so the others keep going
+	const results = await Promise.all(
+		issueNumbers.map((issueNumber) =>
+			pool.run(() =>
+				runWorker(
+					config,
+					botToken,
+					{ issueNumber },
+					{
+						reviewer: options.reviewer,
+						baseBranch: options.base,
+						timeoutMinutes: options.timeout
+							? (parseTimeout(options.timeout) ?? undefined)
+							: undefined,
+						follow: options.follow,
+						keepOnFailure: options.keepOnFailure,
+						output: options.output as OutputMode | undefined,
+						image,
+					},
+				),
+			),
+		),
+	);
+
+	displayBatchSummary(results);
+
+	if (results.some((result) => !result.success)) {
+		await exitGracefully(1);
+	}
+}
+
+/**
+ * Run one quiet, labelled worker. Never rejects: failures are reported
+ * through the returned results so sibling runs are unaffected.
+ */
+export async function runWorker(
+	config: Config,
+	botToken: string,
+	execution: ExecutionOptions,
+	overrides: {
+		reviewer?: string;
+		baseBranch?: string;
+		label?: string;
+		timeoutMinutes?: number;
+		follow?: boolean;
+		keepOnFailure?: boolean;
+		output?: OutputMode;
+		image?: string;
+	} = {},
+): Promise<WorkflowResults> {
+	const label =
+		overrides.label ||
+		(execution.issueNumber
+			? `#${execution.issueNumber}`
+			: execution.pullRequestNumber
+				? `PR #${execution.pullRequestNumber}`
+				: "prompt");
+	const executor = new WorkflowExecutor(config, {
+		botToken,
+		reviewer: overrides.reviewer || process.env[config.workflow.reviewerEnvVar],
+		baseBranch: overrides.baseBranch || config.project.workingBranch,
+		timeoutMinutes: overrides.timeoutMinutes,
+		follow: overrides.follow,
+		keepOnFailure: overrides.keepOnFailure,
+		output: overrides.output,
+		image: overrides.image,
+		label,
+		quiet: true,
+	});
+
+	try {
+		return await executor.execute(execution);
+	} catch (error: any) {
+		const results = executor.getResults() ?? {
+			issueNumber: execution.issueNumber,
+			prompt: execution.prompt,
+			startTime: new Date(),
+			success: false,
+		};
+		results.success = false;
+		results.endTime ??= new Date();
+		results.error ??= error?.message || "Unknown error occurred";
+		logger.error(`✖ ${label} failed: ${results.error}`);
+		return results;
+	}
+}
+
+async function resolveBatchIssues(
+	config: Config,
+	botToken: string,
+	options: DispatchOptions,
+): Promise<number[]> {
+	const issueNumbers = new Set<number>();
+
+	if (options.issues) {
+		for (const issueNumber of parseIssueNumbers(options.issues)) {
+			issueNumbers.add(issueNumber);
+		}
+	}
+
+	if (options.label) {
+		const github = new GitHubClient(botToken);
+		const issues = await github.listIssuesByLabel(
+			config.project.owner,
+			config.project.name,
+			[options.label],
+		);
+		for (const issue of issues) {
+			issueNumbers.add(issue.number);
+		}
+	}
+
+	return Array.from(issueNumbers);
+}
+
+function displayBatchSummary(results: WorkflowResults[]): void {
+	const succeeded = results.filter((result) => result.success).length;
+
+	console.log(`\n${"━".repeat(80)}`);
+	console.log(chalk.cyan.bold("🤖 Batch Development Summary"));
+	console.log("━".repeat(80));
+
+	console.log(
+		chalk.bold(
+			`${"Issue".padEnd(8)}${"Status".padEnd(10)}${"Duration".padEnd(10)}${"Branch".padEnd(30)}Output`,
+		),
+	);
+
+	for (const result of results) {
+		const duration = result.endTime
+			? `${Math.round((result.endTime.getTime() - result.startTime.getTime()) / 1000)}s`
+			: "-";
+		const status = result.success
+			? chalk.green("✅ done".padEnd(10))
+			: chalk.red("❌ failed".padEnd(10));
+		const output =
+			result.prUrl ||
+			(result.prNumber ? `#${result.prNumber}` : undefined) ||
+			(result.localBranch ? `local branch ${result.localBranch}` : undefined) ||
+			(result.outputPath ? relative(process.cwd(), result.outputPath) : "-");
+
+		console.log(
+			`${`#${result.issueNumber}`.padEnd(8)}${status}${duration.padEnd(10)}${(result.branchName || "-").padEnd(30)}${output}`,
+		);
+
+		if (!result.success && result.error) {
+			console.log(chalk.gray(`        └─ ${result.error}`));
+		}
+	}
+
+	console.log("━".repeat(80));
+	console.log(
+		`${chalk.green(`✅ ${succeeded} succeeded`)}  ${chalk.red(`❌ ${results.length - succeeded} failed`)}\n`,
+	);
+}
+
+/**
+ * What a successful run left behind, for the closing summary. A run either
+ * opens a pull request, pushes to an existing one or writes to the host.
+ */
+export function describeOutcome(results: WorkflowResults): string[] {
+	const lines: string[] = [];
+
+	if (results.issueCreated && results.issueNumber) {
+		lines.push(`Created issue #${results.issueNumber}`);
+	}
+
+	if (results.ciFixPullRequest) {
+		lines.push(
+			`Pushed a fix for the failing checks to PR #${results.ciFixPullRequest}`,
+		);
+	} else if (results.reviewedPullRequest) {
+		lines.push(
+			`Pushed follow-up commits to PR #${results.reviewedPullRequest}`,
+		);
+		if (results.repliedComments) {
+			lines.push(`Replied to ${results.repliedComments} review comment(s)`);
+		}
+	} else if (results.localBranch) {
+		lines.push(
+			`Created local branch ${results.localBranch}; nothing was pushed`,
+		);
+	} else if (results.outputPath) {
+		lines.push(
+			`Wrote ${relative(process.cwd(), results.outputPath)}; nothing was pushed`,
+		);
+	} else if (results.prNumber) {
+		if (results.branchName) {
+			lines.push(`Pushed branch ${results.branchName}`);
+		}
+		lines.push(
+			`Opened PR #${results.prNumber}${results.prUrl ? ` ${results.prUrl}` : ""}`,
+		);
+	}
+
+	return lines;
+}
+
+/**
+ * Issue numbers from `--issues`, such as "12,15,#31". Anything but a positive
+ * whole number is rejected, so a typo can't dispatch the wrong issue.
+ */
+export function parseIssueNumbers(value: string): number[] {
+	return value.split(",").map((entry) => {
+		const trimmed = entry.trim().replace(/^#/, "");
+		if (!/^\d+$/.test(trimmed) || parseInt(trimmed, 10) === 0) {
+			throw new Error(
+				`Invalid issue number in --issues: "${entry.trim()}" (expected e.g. 12,15,31)`,
+			);
+		}
+		return parseInt(trimmed, 10);
+	});
+}
+
+/**
+ * Minutes from `--timeout`, or null unless it's a plain positive number within
+ * what a timer can wait
+ */
+function parseTimeout(value: string): number | null {
+	const minutes = value.trim() === "" ? Number.NaN : Number(value);
+	return Number.isFinite(minutes) &&
+		minutes > 0 &&
+		minutes <= MAX_TIMEOUT_MINUTES
+		? minutes
+		: null;
+}
+
 function determineScenario(options: DispatchOptions): string {
-	if (options.issue && options.prompt) {
+	if (options.fixCi) {
+		return "Fix failing CI";
+	} else if (options.pr) {
+		return "Address review feedback";
+	} else if (options.issue && options.prompt) {
 		return "Combined (Issue + Custom context)";
 	} else if (options.issue) {
 		return "Issue-based development";
@@ -172,11 +661,25 @@ async function showDryRun(
 	console.log(`\n${chalk.bold("Workflow steps:")}`);
 
 	if (options.createIssue && options.prompt) {
+		const draft = draftIssue(options.prompt, options.title);
+		const typeLabel = config.issue.typeLabels[draft.type];
+		const labels = [
+			...new Set([
+				...config.issue.labels,
+				...(typeLabel ? [typeLabel] : []),
+				...(options.issueLabel?.split(",").map((label) => label.trim()) ?? []),
+			]),
+		];
 		console.log(`  1. ${chalk.blue("Create GitHub issue")} from prompt`);
-		console.log(
-			`     Title: ${chalk.gray("feat: [first sentence of prompt]")}`,
-		);
-		console.log(`     Body: ${chalk.gray("[remaining prompt content]")}`);
+		console.log(`     Title: ${chalk.gray(draft.title)} (${draft.type})`);
+		if (labels.length > 0) {
+			console.log(`     Labels: ${chalk.gray(labels.join(", "))}`);
+		}
+		if (options.draftCriteria || config.issue.draftAcceptanceCriteria) {
+			console.log(
+				`     Acceptance criteria: ${chalk.gray("drafted by the agent first")}`,
+			);
+		}
 	}
 
 	if (options.issue) {
@@ -185,6 +688,41 @@ async function showDryRun(
 		);
 	}
 
+	if (options.issues || options.label) {
+		const targets = [
+			options.issues && `issues ${options.issues}`,
+			options.label && `open issues labeled "${options.label}"`,
+		]
+			.filter(Boolean)
+			.join(" + ");
+		console.log(
+			`  ${chalk.blue("Batch")}: ${targets}, ${options.concurrency || config.workflow.concurrency} at a time, one container each`,
+		);
+	}
+
+	if (options.pr || options.fixCi) {
+		console.log(
+			options.fixCi
+				? `  1. ${chalk.blue("Collect failing checks")} and job logs for PR #${options.fixCi} (at most ${config.workflow.maxCiFixAttempts} attempts per PR)`
+				: `  1. ${chalk.blue("Collect review feedback")}: unresolved comments and change requests on PR #${options.pr}`,
+		);
+		console.log(
+			`  2. ${chalk.blue("Execute Claude Code")} on the PR's branch in isolated container`,
+		);
+		console.log(
+			`  3. ${chalk.blue("Verify quality checks")}: ${config.workflow.qualityChecks.join(", ")}`,
+		);
+		console.log(
+			options.fixCi
+				? `  4. ${chalk.blue("Push the fix")} to the PR's branch`
+				: `  4. ${chalk.blue("Push follow-up commits")} and reply to the addressed comments`,
+		);
+		console.log(
+			`\n${chalk.yellow("💡 Run without --dry-run to execute the workflow")}`,
+		);
+		return;
+	}
+
 	const stepOffset = (options.createIssue ? 1 : 0) + (options.issue ? 1 : 0);
 	console.log(
 		`  ${stepOffset + 1}. ${chalk.blue("Create feature branch")} from ${options.base || config.project.workingBranch}`,
@@ -193,14 +731,20 @@ async function showDryRun(
 		`  ${stepOffset + 2}. ${chalk.blue("Execute Claude Code")} in isolated container`,
 	);
 	console.log(
-		`  ${stepOffset + 3}. ${chalk.blue("Run quality checks")}: ${config.workflow.qualityChecks.join(", ")}`,
-	);
-	console.log(
-		`  ${stepOffset + 4}. ${chalk.blue("Create pull request")} with bot authentication`,
-	);
-	console.log(
-		`  ${stepOffset + 5}. ${chalk.blue("Update project status")} to "In Review"`,
+		`  ${stepOffset + 3}. ${chalk.blue("Verify quality checks")}: ${config.workflow.qualityChecks.join(", ")}`,
 	);
+	if (options.output && options.output !== "pr") {
+		console.log(
+			`  ${stepOffset + 4}. ${chalk.blue(`Export commits as ${options.output}`)} on this machine; nothing is pushed`,
+		);
+	} else {
+		console.log(
+			`  ${stepOffset + 4}. ${chalk.blue("Push branch and open pull request")} with reviewer${config.pullRequest.labels.length > 0 ? ` and labels ${config.pullRequest.labels.join(", ")}` : ""}`,
+		);
+		console.log(
+			`  ${stepOffset + 5}. ${chalk.blue("Update project status")} to "In Review"`,
+		);
+	}
 
 	console.log(`\n${chalk.bold("Docker execution:")}`);
 	console.log(
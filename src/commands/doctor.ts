@@ -2,6 +2,10 @@
 import { execSync } from "node:child_process";
 import chalk from "chalk";
 import { ConfigManager } from "../core/config-manager.js";
+import {
+	createContainerRuntime,
+	detectEngine,
+} from "../core/container-runtime.js";
 import { logger } from "../utils/logger.js";
 
 interface DoctorOptions {
@@ -24,7 +28,7 @@ export async function doctorCommand(
 
 	const checks: HealthCheck[] = [
 		await checkNodeVersion(),
-		await checkDockerRunning(),
+		await checkContainerRuntime(),
 		await checkGitHubCLI(),
 		await checkClaudeCode(),
 		await checkConfiguration(),
@@ -142,19 +146,46 @@ async function checkNodeVersion(): Promise<HealthCheck> {
 	}
 }
 
-async function checkDockerRunning(): Promise<HealthCheck> {
+/**
+ * Reach the engine selected by `docker.runtime` through its API, and check
+ * the CLI used for image builds and shells is installed
+ */
+async function checkContainerRuntime(): Promise<HealthCheck> {
+	let setting = "docker";
 	try {
-		execSync("docker info", { stdio: "ignore" });
+		setting = new ConfigManager().load().docker.runtime;
+	} catch {
+		// An invalid config is reported by the configuration check
+	}
+
+	try {
+		const runtime = createContainerRuntime(setting);
+		const engine = await detectEngine(runtime);
+		const endpoint = runtime.host ?? "default socket";
+
+		try {
+			execSync(`${runtime.cli} --version`, {
+				stdio: "ignore",
+				env: runtime.cliEnv,
+			});
+		} catch {
+			return {
+				name: "Container Runtime",
+				status: "warn",
+				message: `${engine.name} ${engine.version} via ${endpoint}, but the ${runtime.cli} CLI is missing`,
+			};
+		}
+
 		return {
-			name: "Docker",
+			name: "Container Runtime",
 			status: "pass",
-			message: "Running ✓",
+			message: `${engine.name} ${engine.version} via ${endpoint} ✓`,
 		};
-	} catch (_error) {
+	} catch (error: any) {
 		return {
-			name: "Docker",
+			name: "Container Runtime",
 			status: "fail",
-			message: "Not running or not installed",
+			message: `${setting}: ${error?.message ?? "not running or not installed"}`,
 			fixable: false,
 		};
 	}
@@ -367,8 +398,8 @@ function getStatusColor(status: "pass" | "fail" | "warn") {
 function getDetailedMessage(check: HealthCheck): string {
 	// Add detailed troubleshooting information based on check name
 	switch (check.name) {
-		case "Docker":
-			return "Install Docker Desktop and ensure it is running";
+		case "Container Runtime":
+			return "Install Docker Desktop or Podman, ensure it is running, and set docker.runtime to match";
 		case "GitHub CLI":
 			return "Install with: brew install gh && gh auth login";
 		case "Claude Code":
@@ -382,8 +413,8 @@ function getDetailedMessage(check: HealthCheck): string {
 
 function getRecommendation(check: HealthCheck): string | null {
 	switch (check.name) {
-		case "Docker":
-			return "Install Docker Desktop from https://docker.com/products/docker-desktop";
+		case "Container Runtime":
+			return "Install Docker Desktop from https://docker.com/products/docker-desktop, or run Podman with: systemctl --user enable --now podman.socket";
 		case "GitHub CLI":
 			return "Run: brew install gh && gh auth login";
 		case "Claude Code":
@@ -0,0 +1,136 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: will fix later */
+import chalk from "chalk";
+import type Docker from "dockerode";
+import ora from "ora";
+import { ConfigManager } from "../core/config-manager.js";
+import type { Config } from "../core/config-schema.js";
+import {
+	type ContainerRuntime,
+	createContainerRuntime,
+} from "../core/container-runtime.js";
+import {
+	buildWorkerImage,
+	imageExists,
+	pushImage,
+	registryAuth,
+	resolveWorkerImage,
+	splitImageReference,
+} from "../core/worker-image.js";
+import { exitGracefully } from "../utils/cleanup-manager.js";
+import { logger } from "../utils/logger.js";
+
+interface ImageOptions {
+	tag?: string;
+	force?: boolean;
+}
+
+export async function imageCommand(
+	action: string,
+	options: ImageOptions = {},
+): Promise<void> {
+	let config: Config;
+
+	try {
+		config = new ConfigManager().load();
+	} catch (error: any) {
+		logger.error("Failed to load configuration:", error?.message);
+		logger.info("Run: constech-worker init");
+		await exitGracefully(1);
+		return;
+	}
+
+	try {
+		const runtime = createContainerRuntime(config.docker.runtime);
+
+		switch (action) {
+			case "build":
+				await buildImage(runtime, config, options.force || false);
+				return;
+			case "push":
+				await pushWorkerImage(runtime.docker, config, options.tag);
+				return;
+			default:
+				await exitGracefully(1, `Unknown action "${action}". Use: build, push`);
+		}
+	} catch (error: any) {
+		logger.error(`Image ${action} failed:`, error?.message);
+		await exitGracefully(1);
+	}
+}
+
+/**
+ * Build the worker image from the devcontainer or the generated Dockerfile,
+ * unless an image with the same fingerprint exists
+ */
+async function buildImage(
+	runtime: ContainerRuntime,
+	config: Config,
+	force: boolean,
+): Promise<void> {
+	const image = await resolveWorkerImage(config);
+
+	if (!force && (await imageExists(runtime.docker, image.tag))) {
+		logger.success(`${image.tag} is up to date`);
+		return;
+	}
+
+	const spinner = ora(`Building ${image.tag} (${image.kind})...`).start();
+	try {
+		await buildWorkerImage(image, runtime);
+		spinner.succeed(`Built ${image.tag}`);
+	} catch (error) {
+		spinner.fail(`Failed to build ${image.tag}`);
+		throw error;
+	}
+
+	console.log(
+		chalk.gray(
+			`💡 Push it for others to reuse: ${chalk.cyan("constech-worker image push --tag <registry>/<repository>:<tag>")}`,
+		),
+	);
+}
+
+/**
+ * Push the built worker image under `target` (or `docker.customImage`), and
+ * under its fingerprint in the same repository so runs can pin it
+ */
+async function pushWorkerImage(
+	docker: Docker,
+	config: Config,
+	target?: string,
+): Promise<void> {
+	const reference = target ?? config.docker.customImage;
+	if (!reference) {
+		throw new Error("Pass --tag or set docker.customImage to push to");
+	}
+
+	const image = await resolveWorkerImage(config);
+	if (!(await imageExists(docker, image.tag))) {
+		throw new Error(
+			`${image.tag} hasn't been built; run: constech-worker image build`,
+		);
+	}
+
+	const { repository } = splitImageReference(reference);
+	const targets = [
+		...new Set([reference, `${repository}:${image.fingerprint}`]),
+	];
+	const auth = registryAuth(config, reference);
+
+	for (const tag of targets) {
+		const spinner = ora(`Pushing ${tag}...`).start();
+		try {
+			await pushImage(docker, image.tag, tag, auth);
+			spinner.succeed(`Pushed ${tag}`);
+		} catch (error) {
+			spinner.fail(`Failed to push ${tag}`);
+			throw error;
+		}
+	}
+
+	console.log(
+		chalk.gray(
+			`💡 Set ${chalk.cyan(`"docker.customImage": "${reference}"`)} to run workers from it`,
+		),
+	);
+}
@@ -0,0 +1,42 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ignoreRunHistory } from "./init.js";
+
+describe("ignoreRunHistory", () => {
+	let projectPath: string;
+	const gitignore = () => readFileSync(join(projectPath, ".gitignore"), "utf8");
+
+	beforeEach(() => {
+		projectPath = mkdtempSync(join(tmpdir(), "init-"));
+	});
+
+	afterEach(() => {
+		rmSync(projectPath, { recursive: true, force: true });
+	});
+
+	it("creates a .gitignore for the run history", () => {
+		expect(ignoreRunHistory(projectPath)).toBe(true);
+		expect(gitignore()).toBe(".constech-worker/\n");
+	});
+
+	it("appends to an existing .gitignore", () => {
+		writeFileSync(join(projectPath, ".gitignore"), "node_modules\ndist");
+
+		expect(ignoreRunHistory(projectPath)).toBe(true);
+		expect(gitignore()).toBe("node_modules\ndist\n.constech-worker/\n");
+	});
+
+	it("leaves a .gitignore that already covers it alone", () => {
+		for (const entry of [".constech-worker", "/.constech-worker/"]) {
+			writeFileSync(
+				join(projectPath, ".gitignore"),
+				`node_modules\n${entry}\n`,
+			);
+
+			expect(ignoreRunHistory(projectPath)).toBe(false);
+			expect(gitignore()).toBe(`node_modules\n${entry}\n`);
+		}
+	});
+});
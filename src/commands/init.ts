@@ -1,4 +1,6 @@
 /** biome-ignore-all lint/suspicious/noExplicitAny: will fix later */
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
 import chalk from "chalk";
 import ora from "ora";
 import { ConfigManager } from "../core/config-manager.js";
@@ -6,6 +8,9 @@ import { ProjectDetector } from "../core/project-detector.js";
 import { showAnimatedBanner } from "../utils/banner.js";
 import { logger } from "../utils/logger.js";
 
+/** Run records, logs and exported patches, which may hold secrets */
+const RUN_HISTORY_ENTRY = ".constech-worker/";
+
 interface InitOptions {
 	force?: boolean;
 	config?: string;
@@ -50,6 +55,16 @@ export async function initCommand(options: InitOptions = {}): Promise<void> {
 
 		spinner.succeed("Configuration created successfully!");
 
+		try {
+			if (ignoreRunHistory(process.cwd())) {
+				logger.info(`📝 Added ${RUN_HISTORY_ENTRY} to .gitignore`);
+			}
+		} catch (error: any) {
+			logger.warning(
+				`Couldn't update .gitignore (${error?.message}); add ${RUN_HISTORY_ENTRY} to it yourself`,
+			);
+		}
+
 		// Show summary
 		console.log(`\n${chalk.bgGreen.black(" CONFIGURATION SUMMARY ")}`);
 		console.log(
@@ -99,3 +114,26 @@ export async function initCommand(options: InitOptions = {}): Promise<void> {
 		process.exit(1);
 	}
 }
+
+/**
+ * Add the run history directory to the project's .gitignore unless it is
+ * already there. Returns whether the file changed.
+ */
+export function ignoreRunHistory(projectPath: string): boolean {
+	const path = join(projectPath, ".gitignore");
+	const current = existsSync(path) ? readFileSync(path, "utf8") : "";
+	const ignored = current
+		.split(/\r?\n/)
+		.some(
+			(line) =>
+				line.trim().replace(/^\//, "").replace(/\/$/, "") ===
+				".constech-worker",
+		);
+	if (ignored) {
+		return false;
+	}
+
+	const separator = current && !current.endsWith("\n") ? "\n" : "";
+	writeFileSync(path, `${current}${separator}${RUN_HISTORY_ENTRY}\n`);
+	return true;
+}
@@ -0,0 +1,255 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: will fix later */
+import chalk from "chalk";
+import { z } from "zod";
+import { ClaudeMdParser } from "../core/claude-md-parser.js";
+import { ConfigManager } from "../core/config-manager.js";
+import type { Config } from "../core/config-schema.js";
+import { GitHubClient, type Issue } from "../core/github-client.js";
+import { WorkflowExecutor } from "../core/workflow-executor.js";
+import { showCompactAnimatedBanner } from "../utils/banner.js";
+import { exitGracefully } from "../utils/cleanup-manager.js";
+import { logger } from "../utils/logger.js";
+import { runWorker } from "./dispatch.js";
+
+interface PlanOptions {
+	issue?: string;
+	maxSubtasks?: string;
+	dispatch?: boolean;
+	reviewer?: string;
+	base?: string;
+	dryRun?: boolean;
+}
+
+const PlanSchema = z.object({
+	subtasks: z
+		.array(
+			z.object({
+				title: z.string().min(1),
+				body: z.string(),
+				acceptanceCriteria: z.array(z.string()).default([]),
+			}),
+		)
+		.min(1),
+});
+
+type Subtask = z.infer<typeof PlanSchema>["subtasks"][number];
+
+export async function planCommand(options: PlanOptions = {}): Promise<void> {
+	const issueNumber = options.issue ? parseInt(options.issue, 10) : NaN;
+	if (!(issueNumber > 0)) {
+		await exitGracefully(1, "--issue must be an issue number");
+		return;
+	}
+
+	const maxSubtasks = options.maxSubtasks
+		? parseInt(options.maxSubtasks, 10)
+		: 6;
+	if (!(maxSubtasks >= 1)) {
+		await exitGracefully(1, "--max-subtasks must be a positive number");
+		return;
+	}
+
+	await showCompactAnimatedBanner();
+
+	const configManager = new ConfigManager();
+	let config: Config;
+
+	try {
+		config = configManager.load();
+	} catch (error: any) {
+		logger.error("Failed to load configuration:", error?.message);
+		logger.info("Run: constech-worker init");
+		await exitGracefully(1);
+		return;
+	}
+
+	const botToken = process.env[config.bot.tokenEnvVar];
+	if (!botToken) {
+		await exitGracefully(
+			1,
+			`Environment variable ${config.bot.tokenEnvVar} is required`,
+		);
+		return;
+	}
+
+	const github = new GitHubClient(botToken);
+	const { owner, name: repo } = config.project;
+	const baseBranch = options.base || config.project.workingBranch;
+
+	try {
+		const parent = await github.getIssue(owner, repo, issueNumber);
+		logger.info(
+			`🎯 Planning issue #${issueNumber}: ${chalk.cyan(parent.title)}`,
+		);
+
+		const parser = new ClaudeMdParser(process.cwd());
+		const instructions = await parser.readClaudeInstructions();
+		const executor = new WorkflowExecutor(config, {
+			botToken,
+			baseBranch,
+		});
+
+		const plan = await executor.analyze({
+			title: `Planning issue #${issueNumber}`,
+			prompt: parser.generatePlanningPrompt({
+				issueNumber,
+				issueTitle: parent.title,
+				issueBody: parent.body,
+				workingBranch: baseBranch,
+				maxSubtasks,
+				filteredInstructions: instructions.filtered,
+			}),
+			schema: PlanSchema,
+		});
+		const subtasks = plan.subtasks.slice(0, maxSubtasks);
+
+		printPlan(subtasks);
+
+		if (options.dryRun) {
+			console.log(
+				chalk.yellow("💡 Run without --dry-run to create these as issues"),
+			);
+			return;
+		}
+
+		const created = await createSubIssues(config, github, parent, subtasks);
+
+		if (options.dispatch) {
+			await dispatchSequentially(config, botToken, created, {
+				reviewer: options.reviewer,
+				baseBranch,
+			});
+		} else {
+			logger.info(
+				`💡 Start with: ${chalk.cyan(`constech-worker dispatch --issue ${created[0].number}`)}`,
+			);
+		}
+	} catch (error: any) {
+		logger.error("Planning failed:", error?.message);
+		await exitGracefully(1);
+	}
+}
+
+function printPlan(subtasks: Subtask[]): void {
+	console.log(`\n${chalk.bold(`📋 Plan (${subtasks.length} sub-tasks)`)}`);
+	console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+	subtasks.forEach((subtask, index) => {
+		console.log(`${chalk.cyan(`${index + 1}.`)} ${chalk.bold(subtask.title)}`);
+		for (const criterion of subtask.acceptanceCriteria) {
+			console.log(chalk.gray(`   - ${criterion}`));
+		}
+	});
+	console.log();
+}
+
+/**
+ * File the sub-tasks as issues in the Backlog, linked to the parent as
+ * sub-issues and through a task list in its body
+ */
+async function createSubIssues(
+	config: Config,
+	github: GitHubClient,
+	parent: Issue,
+	subtasks: Subtask[],
+): Promise<Issue[]> {
+	const { owner, name: repo } = config.project;
+	const projectId = config.github?.projectId;
+	const statusFieldId = config.github?.statusFieldId;
+	const backlog = config.github?.statusOptions?.backlog;
+	const created: Issue[] = [];
+
+	for (const [index, subtask] of subtasks.entries()) {
+		const issue = await github.createIssue({
+			owner,
+			repo,
+			title: subtask.title,
+			body: [
+				`Part ${index + 1} of ${subtasks.length} of #${parent.number}.${index > 0 ? ` Builds on #${created[index - 1].number}.` : ""}`,
+				"",
+				subtask.body.trim(),
+				...(subtask.acceptanceCriteria.length > 0
+					? [
+							"",
+							"## Acceptance Criteria",
+							...subtask.acceptanceCriteria.map(
+								(criterion) => `- [ ] ${criterion}`,
+							),
+						]
+					: []),
+			].join("\n"),
+		});
+		created.push(issue);
+
+		await github.addSubIssue(owner, repo, parent.number, issue.id);
+		if (projectId) {
+			await github.addIssueToProject(issue.number, projectId, owner, repo);
+			if (statusFieldId && backlog) {
+				await github.updateProjectItemStatus(
+					issue.number,
+					projectId,
+					statusFieldId,
+					backlog,
+					"issue",
+					owner,
+					repo,
+				);
+			}
+		}
+
+		logger.success(`Created #${issue.number}: ${issue.title}`);
+	}
+
+	// The task list works everywhere, sub-issues or not
+	await github.updateIssueBody(
+		owner,
+		repo,
+		parent.number,
+		[
+			parent.body.trim(),
+			"",
+			"## Sub-tasks",
+			...created.map((issue) => `- [ ] #${issue.number}`),
+		].join("\n"),
+	);
+
+	return created;
+}
+
+/**
+ * Work through the sub-issues in order, each branching from the previous
+ * one's branch, and stop at the first failure
+ */
+async function dispatchSequentially(
+	config: Config,
+	botToken: string,
+	issues: Issue[],
+	options: { reviewer?: string; baseBranch: string },
+): Promise<void> {
+	let baseBranch = options.baseBranch;
+
+	for (const issue of issues) {
+		logger.info(
+			`🚀 Dispatching #${issue.number} on ${chalk.yellow(baseBranch)}`,
+		);
+		const results = await runWorker(
+			config,
+			botToken,
+			{ issueNumber: issue.number },
+			{ reviewer: options.reviewer, baseBranch },
+		);
+
+		if (!results.success || !results.branchName) {
+			logger.error(
+				`#${issue.number} failed${results.error ? `: ${results.error}` : ""}; not dispatching the rest`,
+			);
+			await exitGracefully(1);
+			return;
+		}
+
+		logger.success(
+			`#${issue.number} done${results.prUrl ? `: ${results.prUrl}` : ""}`,
+		);
+		baseBranch = results.branchName;
+	}
+}
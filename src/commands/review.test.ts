@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { ConfigSchema, DefaultConfig } from "../core/config-schema.js";
+import type { GitHubClient, NewReview } from "../core/github-client.js";
+import { type AgentReview, postReview } from "./review.js";
+
+describe("postReview", () => {
+	const config = ConfigSchema.parse({
+		...DefaultConfig,
+		project: { ...DefaultConfig.project, owner: "acme", name: "app" },
+	});
+	const review: AgentReview = {
+		verdict: "request_changes",
+		summary: "Handle the empty case.",
+		comments: [{ path: "src/a.ts", line: 3, body: "This can be undefined." }],
+	};
+
+	const fakeGitHub = (failures: number) => {
+		const reviews: NewReview[] = [];
+		const github = {
+			createReview: async (
+				_owner: string,
+				_repo: string,
+				_pullNumber: number,
+				newReview: NewReview,
+			) => {
+				reviews.push(newReview);
+				if (reviews.length <= failures) {
+					throw new Error("Unprocessable Entity");
+				}
+				return { id: reviews.length, html_url: "https://github.com/review" };
+			},
+		} as unknown as GitHubClient;
+		return { github, reviews };
+	};
+
+	it("posts the verdict with inline comments", async () => {
+		const { github, reviews } = fakeGitHub(0);
+
+		await postReview(github, config, "abc123", { pullNumber: 5, review });
+
+		expect(reviews).toEqual([
+			{
+				event: "REQUEST_CHANGES",
+				body: "Handle the empty case.",
+				commitId: "abc123",
+				comments: review.comments,
+			},
+		]);
+	});
+
+	it("falls back to a comment review listing the comments", async () => {
+		const { github, reviews } = fakeGitHub(1);
+
+		const posted = await postReview(github, config, "abc123", {
+			pullNumber: 5,
+			review,
+		});
+
+		expect(posted.id).toBe(2);
+		expect(reviews[1]).toMatchObject({ event: "COMMENT", comments: [] });
+		expect(reviews[1].body).toContain("**Verdict:** request changes");
+		expect(reviews[1].body).toContain("**`src/a.ts:3`**");
+		expect(reviews[1].body).toContain("This can be undefined.");
+	});
+});
@@ -0,0 +1,188 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: will fix later */
+import chalk from "chalk";
+import { z } from "zod";
+import { ClaudeMdParser } from "../core/claude-md-parser.js";
+import { ConfigManager } from "../core/config-manager.js";
+import type { Config } from "../core/config-schema.js";
+import { GitHubClient, type NewReview } from "../core/github-client.js";
+import { WorkflowExecutor } from "../core/workflow-executor.js";
+import { showCompactAnimatedBanner } from "../utils/banner.js";
+import { exitGracefully } from "../utils/cleanup-manager.js";
+import { logger } from "../utils/logger.js";
+
+interface ReviewOptions {
+	pr?: string;
+	dryRun?: boolean;
+}
+
+const ReviewSchema = z.object({
+	verdict: z.enum(["approve", "request_changes", "comment"]),
+	summary: z.string(),
+	comments: z
+		.array(
+			z.object({
+				path: z.string().min(1),
+				line: z.number().int().positive(),
+				body: z.string().min(1),
+			}),
+		)
+		.default([]),
+});
+
+export type AgentReview = z.infer<typeof ReviewSchema>;
+
+const REVIEW_EVENTS: Record<AgentReview["verdict"], NewReview["event"]> = {
+	approve: "APPROVE",
+	request_changes: "REQUEST_CHANGES",
+	comment: "COMMENT",
+};
+
+export async function reviewCommand(
+	options: ReviewOptions = {},
+): Promise<void> {
+	const pullNumber = options.pr ? parseInt(options.pr, 10) : NaN;
+	if (!(pullNumber > 0)) {
+		await exitGracefully(1, "--pr must be a pull request number");
+		return;
+	}
+
+	await showCompactAnimatedBanner();
+
+	const configManager = new ConfigManager();
+	let config: Config;
+
+	try {
+		config = configManager.load();
+	} catch (error: any) {
+		logger.error("Failed to load configuration:", error?.message);
+		logger.info("Run: constech-worker init");
+		await exitGracefully(1);
+		return;
+	}
+
+	const botToken = process.env[config.bot.tokenEnvVar];
+	if (!botToken) {
+		await exitGracefully(
+			1,
+			`Environment variable ${config.bot.tokenEnvVar} is required`,
+		);
+		return;
+	}
+
+	const github = new GitHubClient(botToken);
+	const { owner, name: repo } = config.project;
+
+	try {
+		const pullRequest = await github.getPullRequest(owner, repo, pullNumber);
+		if (pullRequest.state !== "open") {
+			await exitGracefully(
+				1,
+				`PR #${pullNumber} is ${pullRequest.state}, only open pull requests can be reviewed`,
+			);
+			return;
+		}
+		logger.info(
+			`🔎 Reviewing PR #${pullNumber}: ${chalk.cyan(pullRequest.title)}`,
+		);
+
+		const parser = new ClaudeMdParser(process.cwd());
+		const instructions = await parser.readClaudeInstructions();
+		const executor = new WorkflowExecutor(config, { botToken });
+
+		const review = await executor.analyze({
+			title: `Reviewing PR #${pullNumber}`,
+			prompt: parser.generateCodeReviewPrompt({
+				number: pullNumber,
+				title: pullRequest.title,
+				body: pullRequest.body,
+				baseBranch: pullRequest.baseRef,
+				filteredInstructions: instructions.filtered,
+			}),
+			schema: ReviewSchema,
+			pullRequestNumber: pullNumber,
+		});
+
+		printReview(review);
+
+		if (options.dryRun) {
+			console.log(chalk.yellow("💡 Run without --dry-run to post this review"));
+			return;
+		}
+
+		const posted = await postReview(github, config, pullRequest.headSha, {
+			pullNumber,
+			review,
+		});
+		logger.success(`Review posted: ${posted.html_url}`);
+	} catch (error: any) {
+		logger.error("Review failed:", error?.message);
+		await exitGracefully(1);
+	}
+}
+
+function printReview(review: AgentReview): void {
+	const verdictColor =
+		review.verdict === "approve"
+			? chalk.green
+			: review.verdict === "request_changes"
+				? chalk.red
+				: chalk.yellow;
+
+	console.log(`\n${chalk.bold("📝 Review")}`);
+	console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+	console.log(`Verdict: ${verdictColor(review.verdict)}`);
+	console.log(`\n${review.summary.trim()}\n`);
+
+	for (const comment of review.comments) {
+		console.log(chalk.cyan(`${comment.path}:${comment.line}`));
+		console.log(chalk.gray(`  ${comment.body.trim().replace(/\n/g, "\n  ")}`));
+	}
+	if (review.comments.length > 0) {
+		console.log();
+	}
+}
+
+/**
+ * Post the review with inline comments. GitHub rejects the whole review when
+ * a comment points outside the diff, or when the bot reviews its own PR with
+ * a verdict, so fall back to a plain comment review that lists them instead.
+ */
+export async function postReview(
+	github: GitHubClient,
+	config: Config,
+	commitId: string,
+	options: { pullNumber: number; review: AgentReview },
+): Promise<{ id: number; html_url: string }> {
+	const { owner, name: repo } = config.project;
+	const { pullNumber, review } = options;
+
+	try {
+		return await github.createReview(owner, repo, pullNumber, {
+			event: REVIEW_EVENTS[review.verdict],
+			body: review.summary.trim(),
+			commitId,
+			comments: review.comments,
+		});
+	} catch (error: any) {
+		logger.warning(
+			`${error?.message}, posting the review as a single comment instead`,
+		);
+	}
+
+	return github.createReview(owner, repo, pullNumber, {
+		event: "COMMENT",
+		body: [
+			`**Verdict:** ${review.verdict.replace("_", " ")}`,
+			"",
+			review.summary.trim(),
+			...review.comments.flatMap((comment) => [
+				"",
+				`**\`${comment.path}:${comment.line}\`**`,
+				"",
+				comment.body.trim(),
+			]),
+		].join("\n"),
+		commitId,
+		comments: [],
+	});
+}
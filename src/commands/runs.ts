@@ -0,0 +1,291 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: will fix later */
+import chalk from "chalk";
+import { ConfigManager } from "../core/config-manager.js";
+import { createContainerRuntime } from "../core/container-runtime.js";
+import { type RunRecord, RunStore } from "../core/run-store.js";
+import { listWorkerContainers } from "../core/worker-containers.js";
+import { exitGracefully } from "../utils/cleanup-manager.js";
+import { logger } from "../utils/logger.js";
+
+interface RunsOptions {
+	limit?: string;
+	tail?: string;
+	keep?: string;
+}
+
+export async function runsCommand(
+	action: string = "list",
+	id?: string,
+	options: RunsOptions = {},
+): Promise<void> {
+	const store = new RunStore();
+
+	try {
+		switch (action) {
+			case "list":
+				await listRuns(store, options.limit ? parseInt(options.limit, 10) : 20);
+				return;
+			case "show":
+				if (!id) {
+					await exitGracefully(1, "Usage: constech-worker runs show <id>");
+					return;
+				}
+				showRun(await store.load(id));
+				return;
+			case "logs":
+				if (!id) {
+					await exitGracefully(1, "Usage: constech-worker runs logs <id>");
+					return;
+				}
+				await showLogs(
+					store,
+					await store.load(id),
+					options.tail ? parseInt(options.tail, 10) : undefined,
+				);
+				return;
+			case "prune": {
+				const keep = options.keep ? parseInt(options.keep, 10) : 100;
+				if (!(keep >= 0)) {
+					await exitGracefully(1, "--keep must be a number of runs");
+					return;
+				}
+				await pruneRuns(store, keep);
+				return;
+			}
+			default:
+				await exitGracefully(
+					1,
+					`Unknown action "${action}". Use: list, show <id>, logs <id>, prune`,
+				);
+		}
+	} catch (error: any) {
+		logger.error("Failed to read run history:", error?.message);
+		await exitGracefully(1);
+	}
+}
+
+async function listRuns(store: RunStore, limit: number): Promise<void> {
+	const runs = await store.list(limit);
+
+	console.log("\n📜 Constech Worker Runs");
+	console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+	if (runs.length === 0) {
+		console.log(chalk.gray("No runs recorded yet"));
+		return;
+	}
+
+	console.log(
+		chalk.bold(
+			`${"Run".padEnd(22)}${"Status".padEnd(12)}${"Started".padEnd(22)}${"Duration".padEnd(10)}Task`,
+		),
+	);
+
+	for (const run of runs) {
+		console.log(
+			`${run.runId.padEnd(22)}${formatStatus(run).padEnd(12 + statusColorWidth(run))}${run.startTime.toLocaleString().padEnd(22)}${formatDuration(run).padEnd(10)}${describeTask(run)}`,
+		);
+	}
+
+	console.log(
+		chalk.gray(
+			`\n💡 Details: constech-worker runs show <id>  •  Output: constech-worker runs logs <id>`,
+		),
+	);
+}
+
+function showRun(run: RunRecord): void {
+	console.log(`\n${chalk.cyan.bold(`🤖 Run ${run.runId}`)}`);
+	console.log("━".repeat(80));
+
+	console.log(`   • Status: ${formatStatus(run)}`);
+	console.log(`   • Task: ${describeTask(run)}`);
+	console.log(`   • Started: ${run.startTime.toLocaleString()}`);
+	if (run.endTime) {
+		console.log(`   • Finished: ${run.endTime.toLocaleString()}`);
+		console.log(`   • Duration: ${formatDuration(run)}`);
+	}
+	if (run.containerName || run.containerId) {
+		console.log(
+			`   • Container: ${run.containerName ?? ""} ${chalk.gray(run.containerId?.slice(0, 12) ?? "")}`,
+		);
+	}
+	if (run.reviewer) {
+		console.log(`   • Reviewer: ${run.reviewer}`);
+	}
+	if (run.branchName) {
+		console.log(`   • Branch: ${run.branchName}`);
+	}
+	if (run.commitHash) {
+		console.log(`   • Commit: ${run.commitHash.substring(0, 8)}`);
+	}
+	if (run.prUrl || run.prNumber) {
+		console.log(`   • Pull Request: ${run.prUrl ?? `#${run.prNumber}`}`);
+	}
+	if (run.ciFixPullRequest) {
+		console.log(
+			`   • CI fix: PR #${run.ciFixPullRequest}${run.failingChecks ? ` (${run.failingChecks.join(", ")})` : ""}`,
+		);
+	}
+	if (run.reviewedPullRequest) {
+		console.log(
+			`   • Review follow-up: PR #${run.reviewedPullRequest}${run.repliedComments !== undefined ? `, ${run.repliedComments} comment(s) answered` : ""}`,
+		);
+	}
+	if (run.localBranch) {
+		console.log(`   • Local branch: ${run.localBranch}`);
+	}
+	if (run.outputPath) {
+		console.log(`   • Exported to: ${run.outputPath}`);
+	}
+
+	if (run.qualityChecks) {
+		console.log(chalk.magenta.bold("\n🔍 Quality Checks:"));
+		for (const [command, check] of Object.entries(run.qualityChecks)) {
+			console.log(
+				`   • ${command}: ${check.passed ? "✅" : `❌ (exit code ${check.exitCode})`}${check.verified ? "" : chalk.gray(" reported by agent")}`,
+			);
+			if (check.outputTail) {
+				console.log(chalk.gray(check.outputTail.replace(/^/gm, "     ")));
+			}
+		}
+	}
+
+	if (run.summary) {
+		console.log(chalk.blue.bold("\n📝 Work Summary:"));
+		console.log(`   • ${run.summary}`);
+	}
+
+	if (run.error) {
+		console.log(chalk.red.bold("\n❌ Error:"));
+		console.log(`   ${run.error}`);
+	}
+
+	if (run.lastOutput) {
+		console.log(chalk.yellow.bold("\n📄 Last Output:"));
+		console.log(chalk.gray(run.lastOutput.replace(/^/gm, "   ")));
+	}
+
+	if (run.blockedConnections) {
+		console.log(chalk.red.bold("\n🚧 Blocked Proxy Requests:"));
+		for (const entry of run.blockedConnections) {
+			console.log(
+				`   • ${entry.time} ${entry.method} ${entry.host}:${entry.port}`,
+			);
+		}
+		console.log(
+			chalk.gray(
+				"   Only requests through the proxy are listed; direct connections fail unlogged",
+			),
+		);
+	}
+
+	if (run.patchPath || run.keptContainer) {
+		console.log(chalk.blue.bold("\n🔎 Post-mortem:"));
+		if (run.patchPath) {
+			console.log(`   • Partial work: ${run.patchPath}`);
+		}
+		if (run.keptContainer && run.containerName) {
+			console.log(`   • Kept container: ${run.containerName}`);
+		}
+	}
+
+	console.log(`${"━".repeat(80)}\n`);
+}
+
+async function showLogs(
+	store: RunStore,
+	run: RunRecord,
+	tail?: number,
+): Promise<void> {
+	const log = await store.readLog(run.runId);
+
+	if (!log) {
+		logger.warning(`No container output recorded for run ${run.runId}`);
+		return;
+	}
+
+	const lines = log.split("\n");
+	console.log(tail ? lines.slice(-tail).join("\n") : log);
+}
+
+async function pruneRuns(store: RunStore, keep: number): Promise<void> {
+	const deleted = await store.prune(keep, await liveRunCheck());
+
+	if (deleted.length === 0) {
+		logger.success(`Nothing to prune, at most ${keep} run(s) recorded`);
+		return;
+	}
+	logger.success(
+		`Deleted ${deleted.length} run(s), kept the newest ${keep} and any still running`,
+	);
+}
+
+/**
+ * Whether a run still has a worker container, so records left "running" by
+ * a killed worker can be pruned. Without a container runtime only their age
+ * marks them stale.
+ */
+async function liveRunCheck(): Promise<
+	((run: RunRecord) => boolean) | undefined
+> {
+	try {
+		const runtime = new ConfigManager().load().docker.runtime;
+		const workers = await listWorkerContainers(
+			createContainerRuntime(runtime).docker,
+		);
+		return (run) =>
+			workers.some(
+				(worker) =>
+					worker.runId === run.runId ||
+					worker.id === run.containerId ||
+					worker.name === run.containerName,
+			);
+	} catch (error: any) {
+		logger.debug(`Couldn't list worker containers: ${error?.message}`);
+		return undefined;
+	}
+}
+
+function describeTask(run: RunRecord): string {
+	if (run.issueNumber) {
+		return run.issueTitle
+			? `#${run.issueNumber} ${run.issueTitle}`
+			: `#${run.issueNumber}`;
+	}
+	if (run.prompt) {
+		return run.prompt.length > 60
+			? `"${run.prompt.substring(0, 60)}..."`
+			: `"${run.prompt}"`;
+	}
+	return "-";
+}
+
+function formatStatus(run: RunRecord): string {
+	switch (run.status) {
+		case "succeeded":
+			return chalk.green("succeeded");
+		case "failed":
+			return chalk.red("failed");
+		case "timed-out":
+			return chalk.red("timed-out");
+		case "oom-killed":
+			return chalk.red("oom-killed");
+		case "cancelled":
+			return chalk.gray("cancelled");
+		default:
+			return chalk.yellow("running");
+	}
+}
+
+// padEnd counts ANSI escape codes, so widen the column by their length
+function statusColorWidth(run: RunRecord): number {
+	return formatStatus(run).length - run.status.length;
+}
+
+function formatDuration(run: RunRecord): string {
+	if (!run.endTime) {
+		return "-";
+	}
+	return `${Math.round((run.endTime.getTime() - run.startTime.getTime()) / 1000)}s`;
+}
@@ -0,0 +1,138 @@
+import { createHmac } from "node:crypto";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ConfigSchema, DefaultConfig } from "../core/config-schema.js";
+import type { WebhookTrigger } from "../core/webhook-handler.js";
+import { WorkerPool } from "../utils/worker-pool.js";
+import { createWebhookServer, parsePort } from "./serve.js";
+
+const config = ConfigSchema.parse({
+	...DefaultConfig,
+	project: { ...DefaultConfig.project, owner: "acme", name: "app" },
+});
+const secret = "s3cret";
+
+const comment = (association: string) => ({
+	action: "created",
+	issue: { number: 7 },
+	comment: {
+		body: "/constech run",
+		user: { login: "alice" },
+		author_association: association,
+	},
+	repository: { name: "app", owner: { login: "acme" } },
+});
+
+const sign = (body: string) =>
+	`sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+
+describe("createWebhookServer", () => {
+	let server: Server;
+	let baseUrl: string;
+	let triggers: WebhookTrigger[];
+	let accept: boolean;
+
+	beforeEach(async () => {
+		triggers = [];
+		accept = true;
+		server = createWebhookServer(
+			config,
+			{ verify: true, secret },
+			(trigger) => {
+				triggers.push(trigger);
+				return accept;
+			},
+			new WorkerPool(1),
+		);
+		await new Promise<void>((resolve) => server.listen(0, resolve));
+		baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+	});
+
+	afterEach(async () => {
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	const deliver = (
+		event: string,
+		body: string,
+		signature: string | null = sign(body),
+	) =>
+		fetch(`${baseUrl}/webhook`, {
+			method: "POST",
+			headers: {
+				"x-github-event": event,
+				...(signature ? { "x-hub-signature-256": signature } : {}),
+			},
+			body,
+		});
+
+	it("reports health and rejects unknown routes", async () => {
+		const health = await fetch(`${baseUrl}/healthz`);
+		expect(health.status).toBe(200);
+		expect(await health.json()).toEqual({
+			status: "ok",
+			active: 0,
+			queued: 0,
+		});
+
+		expect((await fetch(`${baseUrl}/webhook`)).status).toBe(404);
+		expect((await fetch(`${baseUrl}/other`, { method: "POST" })).status).toBe(
+			404,
+		);
+	});
+
+	it("rejects deliveries without a valid signature", async () => {
+		const body = JSON.stringify(comment("OWNER"));
+
+		expect((await deliver("issue_comment", body, null)).status).toBe(401);
+		expect((await deliver("issue_comment", body, "sha256=00")).status).toBe(
+			401,
+		);
+		expect(triggers).toEqual([]);
+	});
+
+	it("answers pings and rejects invalid JSON", async () => {
+		const ping = await deliver("ping", "{}");
+		expect(await ping.json()).toEqual({ status: "pong" });
+
+		expect((await deliver("issue_comment", "{not json")).status).toBe(400);
+	});
+
+	it("ignores commands from authors without write access", async () => {
+		const response = await deliver(
+			"issue_comment",
+			JSON.stringify(comment("NONE")),
+		);
+
+		expect(response.status).toBe(202);
+		expect(await response.json()).toEqual({ status: "ignored" });
+		expect(triggers).toEqual([]);
+	});
+
+	it("queues commands from trusted authors once", async () => {
+		const body = JSON.stringify(comment("MEMBER"));
+
+		const first = await deliver("issue_comment", body);
+		accept = false;
+		const second = await deliver("issue_comment", body);
+
+		expect(await first.json()).toEqual({ status: "queued" });
+		expect(await second.json()).toEqual({ status: "duplicate" });
+		expect(triggers[0]?.issueNumber).toBe(7);
+	});
+});
+
+describe("parsePort", () => {
+	it("accepts whole numbers from 1 to 65535", () => {
+		expect(parsePort("8787")).toBe(8787);
+		expect(parsePort(" 1 ")).toBe(1);
+		expect(parsePort("65535")).toBe(65535);
+	});
+
+	it("rejects anything else", () => {
+		for (const value of ["0", "65536", "80abc", "8787.5", "-80", "0x50", ""]) {
+			expect(parsePort(value)).toBeNull();
+		}
+	});
+});
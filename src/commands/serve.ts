@@ -0,0 +1,322 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: will fix later */
+import {
+	createServer,
+	type IncomingMessage,
+	type Server,
+	type ServerResponse,
+} from "node:http";
+import chalk from "chalk";
+import { ConfigManager } from "../core/config-manager.js";
+import type { Config } from "../core/config-schema.js";
+import {
+	parseWebhookTrigger,
+	verifyWebhookSignature,
+	type WebhookTrigger,
+} from "../core/webhook-handler.js";
+import { showCompactAnimatedBanner } from "../utils/banner.js";
+import { cleanupManager, exitGracefully } from "../utils/cleanup-manager.js";
+import { logger } from "../utils/logger.js";
+import { WorkerPool } from "../utils/worker-pool.js";
+import { runWorker } from "./dispatch.js";
+
+interface ServeOptions {
+	port?: string;
+	concurrency?: string;
+	reviewer?: string;
+	base?: string;
+	verify?: boolean;
+}
+
+// GitHub caps webhook payloads at 25 MB
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+export async function serveCommand(options: ServeOptions = {}): Promise<void> {
+	if (options.port !== undefined && parsePort(options.port) === null) {
+		await exitGracefully(1, "--port must be a whole number from 1 to 65535");
+		return;
+	}
+
+	await showCompactAnimatedBanner();
+
+	const configManager = new ConfigManager();
+	let config: Config;
+
+	try {
+		config = configManager.load();
+	} catch (error: any) {
+		logger.error("Failed to load configuration:", error?.message);
+		logger.info("Run: constech-worker init");
+		await exitGracefully(1);
+		return;
+	}
+
+	const botToken = process.env[config.bot.tokenEnvVar];
+	if (!botToken) {
+		await exitGracefully(
+			1,
+			`Environment variable ${config.bot.tokenEnvVar} is required`,
+		);
+		return;
+	}
+
+	// Commander maps --no-verify to verify: false
+	const verify = options.verify !== false;
+	const secret = process.env[config.webhook.secretEnvVar];
+	if (verify && !secret) {
+		await exitGracefully(
+			1,
+			`Environment variable ${config.webhook.secretEnvVar} is required to verify webhook signatures (use --no-verify for local testing only)`,
+		);
+		return;
+	}
+
+	const port = options.port
+		? (parsePort(options.port) ?? config.webhook.port)
+		: config.webhook.port;
+	const concurrency = options.concurrency
+		? parseInt(options.concurrency, 10)
+		: config.workflow.concurrency;
+
+	const pool = new WorkerPool(concurrency);
+	const queued = new Set<string>();
+
+	const enqueue = (trigger: WebhookTrigger): boolean => {
+		// Coalesce repeated triggers for an issue that is already queued or running
+		const key = trigger.issueNumber
+			? `issue:${trigger.issueNumber}`
+			: trigger.pullRequestNumber
+				? `pr:${trigger.pullRequestNumber}`
+				: `prompt:${trigger.prompt}`;
+		if (queued.has(key)) {
+			return false;
+		}
+		queued.add(key);
+
+		pool
+			.run(() =>
+				runWorker(
+					config,
+					botToken,
+					{
+						issueNumber: trigger.issueNumber,
+						pullRequestNumber: trigger.pullRequestNumber,
+						prompt: trigger.prompt,
+					},
+					{ reviewer: options.reviewer, baseBranch: options.base },
+				),
+			)
+			.then((results) => {
+				if (results.success) {
+					logger.success(
+						`✅ Run for ${trigger.reason} completed${results.prUrl ? `: ${results.prUrl}` : ""}`,
+					);
+				}
+			})
+			.catch((error: any) => {
+				logger.error(`Run for ${trigger.reason} failed:`, error?.message);
+			})
+			.finally(() => queued.delete(key));
+
+		return true;
+	};
+
+	const server = createWebhookServer(config, { verify, secret }, enqueue, pool);
+
+	// Stop accepting deliveries, then let queued and running workers finish
+	const drain = async () => {
+		await new Promise<void>((resolve) => server.close(() => resolve()));
+		await pool.onIdle();
+	};
+	cleanupManager.registerDrain(drain);
+
+	// Errors before listening (e.g. the port is taken) abort startup; later
+	// ones are logged so a bad socket can't take the server down
+	let listening = false;
+	await new Promise<void>((resolve, reject) => {
+		server.on("error", (error: any) => {
+			if (listening) {
+				logger.error("Webhook server error:", error?.message);
+			} else {
+				reject(error);
+			}
+		});
+		server.listen(port, () => {
+			listening = true;
+			resolve();
+		});
+	});
+
+	logger.info(
+		`📡 Listening for GitHub webhooks on ${chalk.cyan(`http://localhost:${port}${config.webhook.path}`)}`,
+	);
+	logger.info(
+		`   • Events: issues${config.webhook.triggerLabel ? ` (label "${config.webhook.triggerLabel}")` : ""}, issue_comment, pull_request_review ("${config.webhook.commentCommand}")`,
+	);
+	logger.info(`   • Max ${concurrency} concurrent worker(s)`);
+	if (!verify) {
+		logger.warning(
+			"Signature verification disabled - do not expose this server publicly",
+		);
+	}
+
+	await new Promise<void>((resolve) => server.once("close", () => resolve()));
+	cleanupManager.unregisterDrain(drain);
+}
+
+/**
+ * A TCP port from `--port`. Only whole numbers in range are accepted, so
+ * "80abc" or "8787.5" is an error rather than a different port.
+ */
+export function parsePort(value: string): number | null {
+	if (!/^\d+$/.test(value.trim())) {
+		return null;
+	}
+	const port = Number(value);
+	return port >= 1 && port <= 65_535 ? port : null;
+}
+
+/**
+ * HTTP server for webhook deliveries. A failing request or connection is
+ * answered (when still possible) and logged without affecting the others.
+ */
+export function createWebhookServer(
+	config: Config,
+	security: { verify: boolean; secret?: string },
+	enqueue: (trigger: WebhookTrigger) => boolean,
+	pool: WorkerPool,
+): Server {
+	const server = createServer((req, res) => {
+		req.on("error", (error: any) => {
+			logger.debug(`Webhook request error: ${error?.message}`);
+		});
+		res.on("error", (error: any) => {
+			logger.debug(`Webhook response error: ${error?.message}`);
+		});
+
+		handleRequest(req, res, config, security, enqueue, pool).catch(
+			(error: any) => {
+				logger.error("Webhook handling failed:", error?.message);
+				respond(res, 500, { error: "internal error" });
+			},
+		);
+	});
+
+	// Malformed HTTP or a dropped connection, before a request is dispatched
+	server.on("clientError", (error: any, socket) => {
+		logger.debug(`Webhook client error: ${error?.message}`);
+		if (socket.writable && !socket.destroyed) {
+			socket.end("HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n");
+		} else {
+			socket.destroy();
+		}
+	});
+
+	return server;
+}
+
+async function handleRequest(
+	req: IncomingMessage,
+	res: ServerResponse,
+	config: Config,
+	security: { verify: boolean; secret?: string },
+	enqueue: (trigger: WebhookTrigger) => boolean,
+	pool: WorkerPool,
+): Promise<void> {
+	const url = new URL(req.url ?? "/", "http://localhost");
+
+	if (req.method === "GET" && url.pathname === "/healthz") {
+		respond(res, 200, {
+			status: "ok",
+			active: pool.active,
+			queued: pool.pending,
+		});
+		return;
+	}
+
+	if (req.method !== "POST" || url.pathname !== config.webhook.path) {
+		respond(res, 404, { error: "not found" });
+		return;
+	}
+
+	const rawBody = await readBody(req);
+	if (rawBody === null) {
+		respond(res, 413, { error: "payload too large" });
+		return;
+	}
+
+	if (
+		security.verify &&
+		!verifyWebhookSignature(
+			security.secret ?? "",
+			rawBody,
+			req.headers["x-hub-signature-256"] as string | undefined,
+		)
+	) {
+		logger.warning("Rejected webhook delivery with an invalid signature");
+		respond(res, 401, { error: "invalid signature" });
+		return;
+	}
+
+	const event = req.headers["x-github-event"] as string | undefined;
+	if (event === "ping") {
+		respond(res, 200, { status: "pong" });
+		return;
+	}
+
+	let payload: any;
+	try {
+		payload = JSON.parse(rawBody.toString("utf8"));
+	} catch {
+		respond(res, 400, { error: "invalid JSON" });
+		return;
+	}
+
+	const trigger = parseWebhookTrigger(event ?? "", payload, {
+		owner: config.project.owner,
+		repo: config.project.name,
+		commentCommand: config.webhook.commentCommand,
+		triggerLabel: config.webhook.triggerLabel || undefined,
+		botUsername: config.bot.username || undefined,
+		allowedAssociations: config.webhook.allowedAssociations,
+		allowedUsers: config.webhook.allowedUsers,
+	});
+
+	if (!trigger) {
+		logger.debug(`Ignored ${event} delivery`);
+		respond(res, 202, { status: "ignored" });
+		return;
+	}
+
+	const accepted = enqueue(trigger);
+	logger.info(
+		`📥 ${event}: ${trigger.reason}${trigger.issueNumber ? ` → issue #${chalk.yellow(trigger.issueNumber)}` : ""}${trigger.pullRequestNumber ? ` → PR #${chalk.yellow(trigger.pullRequestNumber)}` : ""}${accepted ? "" : chalk.gray(" (already queued)")}`,
+	);
+	respond(res, 202, { status: accepted ? "queued" : "duplicate" });
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer | null> {
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		let size = 0;
+
+		req.on("data", (chunk: Buffer) => {
+			size += chunk.length;
+			if (size > MAX_BODY_BYTES) {
+				resolve(null);
+				req.destroy();
+				return;
+			}
+			chunks.push(chunk);
+		});
+		req.on("end", () => resolve(Buffer.concat(chunks)));
+		req.on("error", reject);
+	});
+}
+
+function respond(res: ServerResponse, status: number, body: object): void {
+	if (res.headersSent || res.destroyed) {
+		return;
+	}
+	res.writeHead(status, { "Content-Type": "application/json" });
+	res.end(JSON.stringify(body));
+}
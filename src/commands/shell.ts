@@ -0,0 +1,63 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: will fix later */
+import { spawn } from "node:child_process";
+import chalk from "chalk";
+import { ConfigManager } from "../core/config-manager.js";
+import {
+	type ContainerRuntime,
+	createContainerRuntime,
+} from "../core/container-runtime.js";
+import { WORKSPACE_DIR } from "../core/result-contract.js";
+import { resolveWorkerContainer } from "../core/worker-containers.js";
+import { exitGracefully } from "../utils/cleanup-manager.js";
+import { logger } from "../utils/logger.js";
+
+export async function shellCommand(ref: string): Promise<void> {
+	let runtime: ContainerRuntime;
+	let containerName: string;
+
+	try {
+		const config = new ConfigManager().load();
+		runtime = createContainerRuntime(config.docker.runtime);
+		const worker = await resolveWorkerContainer(runtime.docker, ref);
+		containerName = worker.name;
+	} catch (error: any) {
+		await exitGracefully(1, error?.message);
+		return;
+	}
+
+	logger.info(
+		`🐚 Opening a shell in ${chalk.cyan(containerName)} at ${WORKSPACE_DIR}`,
+	);
+	console.log(
+		chalk.gray(
+			"Changes you make here are part of the run; exit to return (the worker keeps running)",
+		),
+	);
+
+	// An interactive TTY is much simpler through the CLI than the API
+	const exitCode = await new Promise<number>((resolve) => {
+		const child = spawn(
+			runtime.cli,
+			[
+				"exec",
+				"-it",
+				"--user",
+				"worker",
+				"--workdir",
+				WORKSPACE_DIR,
+				containerName,
+				"/bin/bash",
+			],
+			{ stdio: "inherit", env: runtime.cliEnv },
+		);
+		child.on("exit", (code) => resolve(code ?? 1));
+		child.on("error", (error) => {
+			logger.error(`Failed to run ${runtime.cli} exec:`, error.message);
+			resolve(1);
+		});
+	});
+
+	if (exitCode !== 0) {
+		await exitGracefully(exitCode);
+	}
+}
@@ -0,0 +1,32 @@
+import type Docker from "dockerode";
+import { describe, expect, it } from "vitest";
+import { waitForWorkerExit } from "./stop.js";
+
+const containerIn = (...states: Array<"running" | "exited" | "removed">) => {
+	let checks = 0;
+	return {
+		inspect: async () => {
+			const state = states[Math.min(checks++, states.length - 1)];
+			if (state === "removed") {
+				throw Object.assign(new Error("no such container"), {
+					statusCode: 404,
+				});
+			}
+			return { State: { Running: state === "running" } };
+		},
+	} as unknown as Docker.Container;
+};
+
+describe("waitForWorkerExit", () => {
+	it("reports a container its dispatch process removed", async () => {
+		expect(await waitForWorkerExit(containerIn("removed"), 60)).toBe("removed");
+	});
+
+	it("stops waiting once a kept container has exited", async () => {
+		expect(await waitForWorkerExit(containerIn("exited"), 60)).toBe("kept");
+	});
+
+	it("gives up on a container that keeps running", async () => {
+		expect(await waitForWorkerExit(containerIn("running"), 0)).toBe("running");
+	});
+});
@@ -0,0 +1,116 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: will fix later */
+import chalk from "chalk";
+import type Docker from "dockerode";
+import ora from "ora";
+import { ConfigManager } from "../core/config-manager.js";
+import { execInContainer } from "../core/container-exec.js";
+import { createContainerRuntime } from "../core/container-runtime.js";
+import { removeEgressResources } from "../core/egress-proxy.js";
+import {
+	CANCEL_MARKER_PATH,
+	KILL_WORKFLOW_SCRIPT,
+} from "../core/result-contract.js";
+import { resolveWorkerContainer } from "../core/worker-containers.js";
+import { exitGracefully } from "../utils/cleanup-manager.js";
+import { logger } from "../utils/logger.js";
+
+interface StopOptions {
+	force?: boolean;
+	wait?: string;
+}
+
+export async function stopCommand(
+	ref: string,
+	options: StopOptions = {},
+): Promise<void> {
+	// Stopping a worker shouldn't depend on a valid config; fall back to the
+	// default runtime
+	let runtime: string | undefined;
+	try {
+		runtime = new ConfigManager().load().docker.runtime;
+	} catch (error: any) {
+		logger.warning(
+			`Couldn't load configuration (${error?.message}), using the default container runtime`,
+		);
+	}
+
+	try {
+		const docker = createContainerRuntime(runtime).docker;
+		const worker = await resolveWorkerContainer(docker, ref);
+		const container = docker.getContainer(worker.id);
+
+		if (options.force) {
+			await container.remove({ force: true });
+			await removeEgressResources(docker, worker.name);
+			logger.success(`Removed ${worker.name}`);
+			return;
+		}
+
+		// Mark the run cancelled before stopping the agent, so the dispatching
+		// process reports a cancellation rather than an agent failure
+		const stop = await execInContainer(docker, container, {
+			cmd: [
+				"/bin/bash",
+				"-c",
+				`touch ${CANCEL_MARKER_PATH} && { ${KILL_WORKFLOW_SCRIPT}; } 2>/dev/null; true`,
+			],
+			user: "worker",
+		});
+		if (stop.exitCode !== 0) {
+			throw new Error(stop.output.trim() || `exit code ${stop.exitCode}`);
+		}
+
+		// The dispatching process cleans up the container once it notices
+		const waitSeconds = options.wait ? parseInt(options.wait, 10) : 60;
+		const spinner = ora(
+			`Cancelling ${chalk.cyan(worker.name)}, waiting for cleanup...`,
+		).start();
+		const outcome = await waitForWorkerExit(container, waitSeconds);
+
+		if (outcome === "removed") {
+			spinner.succeed(
+				`Run ${worker.runId ?? worker.name} cancelled and cleaned up`,
+			);
+		} else if (outcome === "kept") {
+			spinner.succeed(
+				`Run ${worker.runId ?? worker.name} cancelled; ${worker.name} was kept for inspection`,
+			);
+		} else {
+			spinner.warn(
+				`Agent stopped, but ${worker.name} is still there. If its dispatch process is gone, remove it with: constech-worker stop ${ref} --force`,
+			);
+		}
+	} catch (error: any) {
+		logger.error("Failed to stop worker:", error?.message);
+		await exitGracefully(1);
+	}
+}
+
+/**
+ * Wait for the dispatching process to clean up after a cancelled run. A
+ * container it stops instead of removing was kept by `--keep-on-failure`.
+ */
+export async function waitForWorkerExit(
+	container: Docker.Container,
+	waitSeconds: number,
+): Promise<"removed" | "kept" | "running"> {
+	const deadline = Date.now() + waitSeconds * 1000;
+
+	while (Date.now() < deadline) {
+		let info: Docker.ContainerInspectInfo;
+		try {
+			info = await container.inspect();
+		} catch (error: any) {
+			if (error?.statusCode === 404) {
+				return "removed";
+			}
+			throw error;
+		}
+		if (!info.State.Running) {
+			return "kept";
+		}
+		await new Promise((resolve) => setTimeout(resolve, 2000));
+	}
+
+	return "running";
+}
@@ -0,0 +1,193 @@
+import { describe, expect, it } from "vitest";
+import { ConfigSchema, DefaultConfig } from "../core/config-schema.js";
+import type { GitHubClient, Issue } from "../core/github-client.js";
+import { applyTriage, triageIssues, type Verdict } from "./triage.js";
+
+const projectConfig = ConfigSchema.parse({
+	...DefaultConfig,
+	project: { ...DefaultConfig.project, owner: "acme", name: "app" },
+	github: {
+		projectId: "PVT_1",
+		statusFieldId: "STATUS",
+		statusOptions: { backlog: "BACKLOG", ready: "READY" },
+	},
+	triage: {
+		...DefaultConfig.triage,
+		sizeFieldId: "SIZE",
+		sizeOptions: { S: "SIZE_S" },
+	},
+});
+
+const issue = (number: number, labels: string[] = []): Issue => ({
+	id: number * 100,
+	number,
+	title: `Issue ${number}`,
+	body: "",
+	html_url: `https://github.com/acme/app/issues/${number}`,
+	labels,
+});
+
+const verdict = (
+	number: number,
+	overrides: Partial<Verdict> = {},
+): Verdict => ({
+	number,
+	type: "bug",
+	size: "S",
+	labels: [],
+	actionable: true,
+	missing: [],
+	questions: [],
+	...overrides,
+});
+
+/** Records every call the triage makes, keyed by method name */
+function fakeGitHub(issues: Issue[], failOn?: number) {
+	const calls: [string, ...unknown[]][] = [];
+	const record =
+		(name: string, result?: (...args: unknown[]) => unknown) =>
+		async (...args: unknown[]) => {
+			calls.push([name, ...args]);
+			return result?.(...args);
+		};
+
+	const github = {
+		getProjectIssuesByStatus: record("getProjectIssuesByStatus", () =>
+			issues.map(({ number }) => ({ number })),
+		),
+		getIssue: record("getIssue", (_owner, _repo, number) =>
+			issues.find((candidate) => candidate.number === number),
+		),
+		listUnlabeledIssues: record("listUnlabeledIssues", () => issues),
+		listLabels: record("listLabels", () => ["bug", "ui", "enhancement"]),
+		addLabels: record("addLabels", (_owner, _repo, number) => {
+			if (number === failOn) {
+				throw new Error("Validation Failed");
+			}
+		}),
+		addIssueToProject: record("addIssueToProject"),
+		updateProjectItemStatus: record("updateProjectItemStatus"),
+		createComment: record("createComment", () => ({ id: 1 })),
+	} as unknown as GitHubClient;
+
+	return { github, calls };
+}
+
+const analyzer = (verdicts: Verdict[]) => ({
+	analyze: async <T>() => ({ issues: verdicts }) as T,
+});
+
+describe("applyTriage", () => {
+	it("labels, sizes and readies an actionable issue", async () => {
+		const { github, calls } = fakeGitHub([]);
+
+		await applyTriage(
+			projectConfig,
+			github,
+			issue(5, ["bug"]),
+			verdict(5, { labels: ["ui", "made-up"] }),
+			["bug", "ui"],
+		);
+
+		expect(calls).toEqual([
+			["addLabels", "acme", "app", 5, ["ui"]],
+			["addIssueToProject", 5, "PVT_1", "acme", "app"],
+			[
+				"updateProjectItemStatus",
+				5,
+				"PVT_1",
+				"SIZE",
+				"SIZE_S",
+				"issue",
+				"acme",
+				"app",
+			],
+			[
+				"updateProjectItemStatus",
+				5,
+				"PVT_1",
+				"STATUS",
+				"READY",
+				"issue",
+				"acme",
+				"app",
+			],
+		]);
+	});
+
+	it("asks the author about an issue that isn't actionable", async () => {
+		const { github, calls } = fakeGitHub([]);
+
+		await applyTriage(
+			projectConfig,
+			github,
+			issue(6),
+			verdict(6, {
+				actionable: false,
+				questions: ["Which browser?"],
+				missing: ["Steps to reproduce"],
+			}),
+			[],
+		);
+
+		expect(calls[0]).toEqual([
+			"addLabels",
+			"acme",
+			"app",
+			6,
+			["bug", "needs-info"],
+		]);
+		const comment = calls.find(([name]) => name === "createComment");
+		expect(comment?.[4]).toContain("1. Which browser?");
+		expect(comment?.[4]).toContain("- Steps to reproduce");
+		expect(calls.some(([, , , , option]) => option === "READY")).toBe(false);
+	});
+});
+
+describe("triageIssues", () => {
+	it("stops fetching backlog issues once the limit is reached", async () => {
+		const { github, calls } = fakeGitHub([
+			issue(1, ["needs-info"]),
+			issue(2),
+			issue(3),
+			issue(4),
+		]);
+
+		await triageIssues(projectConfig, github, analyzer([]), {
+			limit: 2,
+			dryRun: true,
+		});
+
+		const fetched = calls
+			.filter(([name]) => name === "getIssue")
+			.map((call) => call[3]);
+		expect(fetched).toEqual([1, 2, 3]);
+	});
+
+	it("keeps triaging when one issue fails to update", async () => {
+		const { github } = fakeGitHub([issue(1), issue(2), issue(3)], 2);
+
+		const result = await triageIssues(
+			projectConfig,
+			github,
+			analyzer([verdict(1), verdict(2), verdict(3)]),
+			{ limit: 10 },
+		);
+
+		expect(result).toEqual({ triaged: [1, 3], failed: [2] });
+	});
+
+	it("changes nothing on a dry run", async () => {
+		const { github, calls } = fakeGitHub([issue(1)]);
+
+		const result = await triageIssues(
+			projectConfig,
+			github,
+			analyzer([verdict(1)]),
+			{ limit: 10, dryRun: true },
+		);
+
+		expect(result.triaged).toEqual([]);
+		expect(calls.map(([name]) => name)).not.toContain("addLabels");
+	});
+});
@@ -0,0 +1,299 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: will fix later */
+import chalk from "chalk";
+import { z } from "zod";
+import { ClaudeMdParser } from "../core/claude-md-parser.js";
+import { ConfigManager } from "../core/config-manager.js";
+import type { Config } from "../core/config-schema.js";
+import { GitHubClient, type Issue } from "../core/github-client.js";
+import { WorkflowExecutor } from "../core/workflow-executor.js";
+import { showCompactAnimatedBanner } from "../utils/banner.js";
+import { exitGracefully } from "../utils/cleanup-manager.js";
+import { logger } from "../utils/logger.js";
+
+interface TriageOptions {
+	issue?: string;
+	unlabeled?: boolean;
+	limit?: string;
+	dryRun?: boolean;
+}
+
+const TriageSchema = z.object({
+	issues: z.array(
+		z.object({
+			number: z.number().int(),
+			type: z.enum(["bug", "feature", "chore", "docs"]),
+			size: z.enum(["XS", "S", "M", "L", "XL"]),
+			labels: z.array(z.string()).default([]),
+			actionable: z.boolean(),
+			missing: z.array(z.string()).default([]),
+			questions: z.array(z.string()).default([]),
+		}),
+	),
+});
+
+export type Verdict = z.infer<typeof TriageSchema>["issues"][number];
+
+export async function triageCommand(
+	options: TriageOptions = {},
+): Promise<void> {
+	if (options.issue && !(parseInt(options.issue, 10) > 0)) {
+		await exitGracefully(1, "--issue must be an issue number");
+		return;
+	}
+
+	const limit = options.limit ? parseInt(options.limit, 10) : 10;
+	if (!(limit >= 1)) {
+		await exitGracefully(1, "--limit must be a positive number");
+		return;
+	}
+
+	await showCompactAnimatedBanner();
+
+	const configManager = new ConfigManager();
+	let config: Config;
+
+	try {
+		config = configManager.load();
+	} catch (error: any) {
+		logger.error("Failed to load configuration:", error?.message);
+		logger.info("Run: constech-worker init");
+		await exitGracefully(1);
+		return;
+	}
+
+	const botToken = process.env[config.bot.tokenEnvVar];
+	if (!botToken) {
+		await exitGracefully(
+			1,
+			`Environment variable ${config.bot.tokenEnvVar} is required`,
+		);
+		return;
+	}
+
+	const github = new GitHubClient(botToken);
+	const executor = new WorkflowExecutor(config, { botToken });
+
+	try {
+		const { failed } = await triageIssues(config, github, executor, {
+			...options,
+			limit,
+		});
+		if (failed.length > 0) {
+			await exitGracefully(
+				1,
+				`Failed to triage ${failed.map((number) => `#${number}`).join(", ")}`,
+			);
+		}
+	} catch (error: any) {
+		logger.error("Triage failed:", error?.message);
+		await exitGracefully(1);
+	}
+}
+
+/**
+ * Have the agent triage up to `limit` issues in one analysis run, then apply
+ * each verdict. An issue that fails to update is reported and skipped, so the
+ * others are still triaged.
+ */
+export async function triageIssues(
+	config: Config,
+	github: GitHubClient,
+	executor: Pick<WorkflowExecutor, "analyze">,
+	options: Omit<TriageOptions, "limit"> & { limit: number },
+): Promise<{ triaged: number[]; failed: number[] }> {
+	const { owner, name: repo } = config.project;
+	const triaged: number[] = [];
+	const failed: number[] = [];
+
+	const issues = await findIssues(config, github, options);
+	if (issues.length === 0) {
+		logger.info("No issues to triage");
+		return { triaged, failed };
+	}
+	logger.info(
+		`🏷️  Triaging ${issues.length} issue${issues.length === 1 ? "" : "s"}: ${issues.map((issue) => `#${issue.number}`).join(", ")}`,
+	);
+
+	const labels = await github.listLabels(owner, repo);
+	const parser = new ClaudeMdParser(process.cwd());
+	const instructions = await parser.readClaudeInstructions();
+
+	const answer = await executor.analyze({
+		title: "Triaging issues",
+		prompt: parser.generateTriagePrompt({
+			issues,
+			labels,
+			workingBranch: config.project.workingBranch,
+			filteredInstructions: instructions.filtered,
+		}),
+		schema: TriageSchema,
+	});
+
+	console.log(`\n${chalk.bold("🏷️  Triage")}`);
+	console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+	for (const issue of issues) {
+		const verdict = answer.issues.find(
+			(candidate) => candidate.number === issue.number,
+		);
+		if (!verdict) {
+			logger.warning(`#${issue.number}: the agent didn't triage it`);
+			continue;
+		}
+
+		console.log(
+			`#${issue.number} ${chalk.bold(issue.title)} ${chalk.gray(`${verdict.type}, ${verdict.size}`)} ${verdict.actionable ? chalk.green("actionable") : chalk.yellow("needs info")}`,
+		);
+
+		if (options.dryRun) {
+			continue;
+		}
+		try {
+			await applyTriage(config, github, issue, verdict, labels);
+			triaged.push(issue.number);
+		} catch (error: any) {
+			logger.error(`#${issue.number}: failed to apply triage:`, error?.message);
+			failed.push(issue.number);
+		}
+	}
+
+	if (options.dryRun) {
+		console.log(chalk.yellow("\n💡 Run without --dry-run to apply this"));
+	}
+	return { triaged, failed };
+}
+
+/**
+ * Up to `limit` issues in the project's Backlog column when one is configured,
+ * otherwise unlabeled issues. Issues still waiting on answers are skipped.
+ */
+async function findIssues(
+	config: Config,
+	github: GitHubClient,
+	options: Omit<TriageOptions, "limit"> & { limit: number },
+): Promise<Issue[]> {
+	const { owner, name: repo } = config.project;
+
+	if (options.issue) {
+		return [await github.getIssue(owner, repo, parseInt(options.issue, 10))];
+	}
+
+	const projectId = config.github?.projectId;
+	const statusFieldId = config.github?.statusFieldId;
+	const backlog = config.github?.statusOptions?.backlog;
+	const waiting = (issue: Issue) =>
+		issue.labels.includes(config.triage.needsInfoLabel);
+
+	if (options.unlabeled || !projectId || !statusFieldId || !backlog) {
+		const issues = await github.listUnlabeledIssues(owner, repo);
+		return issues.filter((issue) => !waiting(issue)).slice(0, options.limit);
+	}
+
+	// Project items carry no labels; fetch issues only until the limit is met
+	const items = await github.getProjectIssuesByStatus(
+		projectId,
+		statusFieldId,
+		backlog,
+		owner,
+		repo,
+	);
+	const issues: Issue[] = [];
+	for (const item of items) {
+		if (issues.length >= options.limit) {
+			break;
+		}
+		const issue = await github.getIssue(owner, repo, item.number);
+		if (!waiting(issue)) {
+			issues.push(issue);
+		}
+	}
+	return issues;
+}
+
+/**
+ * Label and size the issue, then move it to Ready or ask its author for what's
+ * missing
+ */
+export async function applyTriage(
+	config: Config,
+	github: GitHubClient,
+	issue: Issue,
+	verdict: Verdict,
+	repoLabels: string[],
+): Promise<void> {
+	const { owner, name: repo } = config.project;
+	const projectId = config.github?.projectId;
+	const statusFieldId = config.github?.statusFieldId;
+	const ready = config.github?.statusOptions?.ready;
+	const sizeFieldId = config.triage.sizeFieldId;
+	const sizeOption = config.triage.sizeOptions[verdict.size];
+
+	// Only suggest labels that exist, but always apply the configured ones
+	const labels = new Set(
+		verdict.labels.filter((label) => repoLabels.includes(label)),
+	);
+	const typeLabel = config.triage.typeLabels[verdict.type];
+	if (typeLabel) {
+		labels.add(typeLabel);
+	}
+	if (!verdict.actionable) {
+		labels.add(config.triage.needsInfoLabel);
+	}
+	const newLabels = [...labels].filter(
+		(label) => !issue.labels.includes(label),
+	);
+	if (newLabels.length > 0) {
+		await github.addLabels(owner, repo, issue.number, newLabels);
+	}
+
+	if (projectId) {
+		// Adding an issue that's already in the project is a no-op
+		await github.addIssueToProject(issue.number, projectId, owner, repo);
+		if (sizeFieldId && sizeOption) {
+			await github.updateProjectItemStatus(
+				issue.number,
+				projectId,
+				sizeFieldId,
+				sizeOption,
+				"issue",
+				owner,
+				repo,
+			);
+		}
+	}
+
+	if (verdict.actionable) {
+		if (projectId && statusFieldId && ready) {
+			await github.updateProjectItemStatus(
+				issue.number,
+				projectId,
+				statusFieldId,
+				ready,
+				"issue",
+				owner,
+				repo,
+			);
+			logger.success(`#${issue.number} moved to Ready`);
+		}
+		return;
+	}
+
+	await github.createComment(
+		owner,
+		repo,
+		issue.number,
+		[
+			"Thanks for opening this! A few things need clarifying before it can be picked up:",
+			"",
+			...verdict.questions.map(
+				(question, index) => `${index + 1}. ${question}`,
+			),
+			...(verdict.missing.length > 0
+				? ["", "**Missing:**", ...verdict.missing.map((item) => `- ${item}`)]
+				: []),
+			"",
+			`Once it's updated, remove the \`${config.triage.needsInfoLabel}\` label to have it triaged again.`,
+		].join("\n"),
+	);
+	logger.info(`#${issue.number}: asked for clarification`);
+}
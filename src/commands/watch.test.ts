@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { ConfigSchema, DefaultConfig } from "../core/config-schema.js";
+import type { GitHubClient } from "../core/github-client.js";
+import type { WorkflowResults } from "../core/workflow-executor.js";
+import { WorkerPool } from "../utils/worker-pool.js";
+import { pollReadyIssues, type WatchState } from "./watch.js";
+
+describe("pollReadyIssues", () => {
+	const config = ConfigSchema.parse(DefaultConfig);
+	const sources = { label: "ready" };
+
+	const setup = (ready: number[]) => {
+		const calls: string[] = [];
+		const github = {
+			listIssuesByLabel: async () => ready.map((number) => ({ number })),
+			removeLabel: async (
+				_owner: string,
+				_repo: string,
+				issueNumber: number,
+				label: string,
+			) => {
+				calls.push(`unlabel #${issueNumber} ${label}`);
+			},
+		} as unknown as GitHubClient;
+		const state: WatchState = { inFlight: new Set(), failed: new Set() };
+		return { calls, github, state };
+	};
+
+	it("claims an issue before running it, up to the free slots", async () => {
+		const { calls, github, state } = setup([3, 1, 2]);
+		const pool = new WorkerPool(2);
+
+		await pollReadyIssues(github, config, sources, pool, state, async (n) => {
+			calls.push(`run #${n}`);
+			return { success: true } as WorkflowResults;
+		});
+		await pool.onIdle();
+
+		expect(calls).toEqual([
+			"unlabel #1 ready",
+			"run #1",
+			"unlabel #2 ready",
+			"run #2",
+		]);
+		expect(state.inFlight.size).toBe(0);
+	});
+
+	it("skips issues that are still running", async () => {
+		const { calls, github, state } = setup([1]);
+		state.inFlight.add(1);
+
+		await pollReadyIssues(
+			github,
+			config,
+			sources,
+			new WorkerPool(1),
+			state,
+			async () => ({ success: true }) as WorkflowResults,
+		);
+
+		expect(calls).toEqual([]);
+	});
+
+	it("doesn't retry an issue whose run failed or threw", async () => {
+		const { github, state } = setup([1, 2]);
+		const pool = new WorkerPool(2);
+		const runs: number[] = [];
+		const run = async (n: number) => {
+			runs.push(n);
+			if (n === 2) {
+				throw new Error("container crashed");
+			}
+			return { success: false } as WorkflowResults;
+		};
+
+		await pollReadyIssues(github, config, sources, pool, state, run);
+		await pool.onIdle();
+		await new Promise((resolve) => setImmediate(resolve));
+		await pollReadyIssues(github, config, sources, pool, state, run);
+		await pool.onIdle();
+
+		expect(runs).toEqual([1, 2]);
+		expect([...state.failed]).toEqual([1, 2]);
+	});
+});
@@ -0,0 +1,298 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: will fix later */
+import chalk from "chalk";
+import { ConfigManager } from "../core/config-manager.js";
+import type { Config } from "../core/config-schema.js";
+import { GitHubClient } from "../core/github-client.js";
+import type { WorkflowResults } from "../core/workflow-executor.js";
+import { showCompactAnimatedBanner } from "../utils/banner.js";
+import { cleanupManager, exitGracefully } from "../utils/cleanup-manager.js";
+import { logger } from "../utils/logger.js";
+import { WorkerPool } from "../utils/worker-pool.js";
+import { runWorker } from "./dispatch.js";
+
+interface WatchOptions {
+	interval?: string;
+	concurrency?: string;
+	label?: string;
+	reviewer?: string;
+	base?: string;
+	once?: boolean;
+}
+
+export interface WatchSources {
+	project?: {
+		projectId: string;
+		statusFieldId: string;
+		readyOptionId: string;
+		inProgressOptionId?: string;
+	};
+	label?: string;
+}
+
+export interface WatchState {
+	/** Issues claimed by this watcher whose worker hasn't finished */
+	inFlight: Set<number>;
+	/** Failed runs move their issue back to Ready; don't pick them straight up again */
+	failed: Set<number>;
+}
+
+export async function watchCommand(options: WatchOptions = {}): Promise<void> {
+	await showCompactAnimatedBanner();
+
+	const configManager = new ConfigManager();
+	let config: Config;
+
+	try {
+		config = configManager.load();
+	} catch (error: any) {
+		logger.error("Failed to load configuration:", error?.message);
+		logger.info("Run: constech-worker init");
+		await exitGracefully(1);
+		return;
+	}
+
+	const botToken = process.env[config.bot.tokenEnvVar];
+	if (!botToken) {
+		await exitGracefully(
+			1,
+			`Environment variable ${config.bot.tokenEnvVar} is required`,
+		);
+		return;
+	}
+
+	const sources = resolveSources(config, options);
+	if (!sources.project && !sources.label) {
+		await exitGracefully(
+			1,
+			"Nothing to watch: configure github.projectId, github.statusFieldId and github.statusOptions.ready, or pass --label",
+		);
+		return;
+	}
+
+	const intervalSeconds = options.interval
+		? parseInt(options.interval, 10)
+		: config.watch.pollIntervalSeconds;
+	const concurrency = options.concurrency
+		? parseInt(options.concurrency, 10)
+		: config.workflow.concurrency;
+
+	if (!(intervalSeconds >= 5) || !(concurrency >= 1)) {
+		await exitGracefully(
+			1,
+			"--interval must be at least 5 seconds and --concurrency at least 1",
+		);
+		return;
+	}
+
+	const github = new GitHubClient(botToken);
+	const pool = new WorkerPool(concurrency);
+	const state: WatchState = { inFlight: new Set(), failed: new Set() };
+	let draining = false;
+	let wake: (() => void) | undefined;
+
+	// On SIGTERM/SIGINT stop claiming new issues and let running workers finish
+	const drain = async () => {
+		draining = true;
+		wake?.();
+		if (pool.active > 0) {
+			logger.info(
+				`⏳ Draining ${pool.active} running worker(s) before shutdown...`,
+			);
+		}
+		await pool.onIdle();
+	};
+	cleanupManager.registerDrain(drain);
+
+	logger.info("👀 Watching for ready issues...");
+	if (sources.project) {
+		logger.info(`   • Project status: ${chalk.cyan("Ready")}`);
+	}
+	if (sources.label) {
+		logger.info(`   • Label: ${chalk.cyan(sources.label)}`);
+	}
+	logger.info(
+		`   • Poll interval: ${intervalSeconds}s, max ${concurrency} concurrent worker(s)`,
+	);
+
+	try {
+		while (!draining) {
+			if (pool.available > 0) {
+				try {
+					await pollReadyIssues(
+						github,
+						config,
+						sources,
+						pool,
+						state,
+						(issueNumber) =>
+							runWorker(
+								config,
+								botToken,
+								{ issueNumber },
+								{
+									reviewer: options.reviewer,
+									baseBranch: options.base,
+								},
+							),
+					);
+				} catch (error: any) {
+					// Transient API failures shouldn't stop the daemon
+					logger.warning(`Poll failed: ${error?.message}`);
+				}
+			}
+
+			if (options.once) {
+				break;
+			}
+
+			await new Promise<void>((resolve) => {
+				const timer = setTimeout(resolve, intervalSeconds * 1000);
+				wake = () => {
+					clearTimeout(timer);
+					resolve();
+				};
+			});
+			wake = undefined;
+		}
+
+		await pool.onIdle();
+	} finally {
+		cleanupManager.unregisterDrain(drain);
+	}
+
+	logger.info("👋 Watcher stopped");
+}
+
+/**
+ * Claim as many ready issues as the pool has room for and start a worker on
+ * each. Issues already running or failed during this watch are skipped.
+ */
+export async function pollReadyIssues(
+	github: GitHubClient,
+	config: Config,
+	sources: WatchSources,
+	pool: WorkerPool,
+	state: WatchState,
+	run: (issueNumber: number) => Promise<WorkflowResults>,
+): Promise<void> {
+	const candidates = await findReadyIssues(github, config, sources);
+	const fresh = candidates.filter(
+		(n) => !state.inFlight.has(n) && !state.failed.has(n),
+	);
+
+	for (const issueNumber of fresh.slice(0, pool.available)) {
+		await claimIssue(github, config, sources, issueNumber);
+		state.inFlight.add(issueNumber);
+		logger.info(`🎯 Claimed issue #${chalk.yellow(issueNumber)}`);
+
+		pool
+			.run(() => run(issueNumber))
+			.then(
+				(results) => {
+					if (results.success) {
+						logger.success(
+							`✅ Issue #${issueNumber} completed${results.prUrl ? `: ${results.prUrl}` : ""}`,
+						);
+						return;
+					}
+					state.failed.add(issueNumber);
+					logger.warning(
+						`Issue #${issueNumber} failed; it won't be retried until the watcher restarts`,
+					);
+				},
+				(error: any) => {
+					state.failed.add(issueNumber);
+					logger.warning(
+						`Issue #${issueNumber} failed (${error?.message}); it won't be retried until the watcher restarts`,
+					);
+				},
+			)
+			.finally(() => state.inFlight.delete(issueNumber));
+	}
+}
+
+function resolveSources(config: Config, options: WatchOptions): WatchSources {
+	const sources: WatchSources = {
+		label: options.label || config.watch.triggerLabel || undefined,
+	};
+
+	const projectId = config.github?.projectId;
+	const statusFieldId = config.github?.statusFieldId;
+	const readyOptionId = config.github?.statusOptions?.ready;
+
+	if (projectId && statusFieldId && readyOptionId) {
+		sources.project = {
+			projectId,
+			statusFieldId,
+			readyOptionId,
+			inProgressOptionId: config.github?.statusOptions?.inProgress || undefined,
+		};
+	}
+
+	return sources;
+}
+
+async function findReadyIssues(
+	github: GitHubClient,
+	config: Config,
+	sources: WatchSources,
+): Promise<number[]> {
+	const issueNumbers = new Set<number>();
+
+	if (sources.project) {
+		const items = await github.getProjectIssuesByStatus(
+			sources.project.projectId,
+			sources.project.statusFieldId,
+			sources.project.readyOptionId,
+			config.project.owner,
+			config.project.name,
+		);
+		for (const item of items) {
+			issueNumbers.add(item.number);
+		}
+	}
+
+	if (sources.label) {
+		const issues = await github.listIssuesByLabel(
+			config.project.owner,
+			config.project.name,
+			[sources.label],
+		);
+		for (const issue of issues) {
+			issueNumbers.add(issue.number);
+		}
+	}
+
+	return Array.from(issueNumbers).sort((a, b) => a - b);
+}
+
+/**
+ * Take an issue out of the ready pool so the next poll doesn't pick it up again
+ */
+async function claimIssue(
+	github: GitHubClient,
+	config: Config,
+	sources: WatchSources,
+	issueNumber: number,
+): Promise<void> {
+	if (sources.project?.inProgressOptionId) {
+		await github.updateProjectItemStatus(
+			issueNumber,
+			sources.project.projectId,
+			sources.project.statusFieldId,
+			sources.project.inProgressOptionId,
+			"issue",
+			config.project.owner,
+			config.project.name,
+		);
+	}
+
+	if (sources.label) {
+		await github.removeLabel(
+			config.project.owner,
+			config.project.name,
+			issueNumber,
+			sources.label,
+		);
+	}
+}
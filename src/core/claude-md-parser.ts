@@ -2,6 +2,11 @@
 import { promises as fs } from "node:fs";
 import { join } from "node:path";
 import { logger } from "../utils/logger.js";
+import type { ReviewFeedback } from "./github-client.js";
+import {
+	ADDRESSED_COMMENTS_PATH,
+	SUMMARY_FILE_PATH,
+} from "./result-contract.js";
 
 export class ClaudeMdParser {
 	private projectPath: string;
@@ -68,17 +73,23 @@ export class ClaudeMdParser {
 	 * Generate enhanced system prompt combining worker workflow with project context
 	 */
 	generateSystemPrompt(options: {
-		workflowType: "issue" | "prompt";
+		workflowType: "issue" | "prompt" | "review" | "fix-ci";
 		issueNumber?: number;
 		prompt?: string;
 		workingBranch: string;
 		qualityChecks: string[];
 		filteredInstructions: string;
-		reviewerEnvVar?: string;
-		defaultReviewer?: string;
-		projectId?: string;
-		statusFieldId?: string;
-		inReviewStatusId?: string;
+		/** Commits are exported for local review; the container has no GitHub credentials */
+		localOutput?: boolean;
+		/** Issue text, for agents that can't read the issue from GitHub */
+		issueBody?: string;
+		/** The pull request a "review" or "fix-ci" workflow continues */
+		pullRequest?: {
+			number: number;
+			branch: string;
+			feedback?: ReviewFeedback;
+			failingChecks?: { name: string; details: string }[];
+		};
 	}): string {
 		const {
 			workflowType,
@@ -87,24 +98,35 @@ export class ClaudeMdParser {
 			workingBranch,
 			qualityChecks,
 			filteredInstructions,
-			reviewerEnvVar,
-			defaultReviewer,
-			projectId,
-			statusFieldId,
-			inReviewStatusId,
+			localOutput,
+			issueBody,
+			pullRequest,
 		} = options;
 
-		// Generate reviewer instruction
-		let reviewerInstruction = "Get reviewer from configuration";
-		if (reviewerEnvVar) {
-			reviewerInstruction = `Get reviewer from ${reviewerEnvVar} env var`;
-			if (defaultReviewer) {
-				reviewerInstruction += ` or use default: ${defaultReviewer}`;
-			}
-		} else if (defaultReviewer) {
-			reviewerInstruction = `Use configured reviewer: ${defaultReviewer}`;
+		if (workflowType === "review" && pullRequest?.feedback) {
+			return this.generateReviewPrompt({
+				...pullRequest,
+				feedback: pullRequest.feedback,
+				prompt,
+				qualityChecks,
+				filteredInstructions,
+			});
+		}
+
+		if (workflowType === "fix-ci" && pullRequest?.failingChecks) {
+			return this.generateCiFixPrompt({
+				...pullRequest,
+				failingChecks: pullRequest.failingChecks,
+				prompt,
+				qualityChecks,
+				filteredInstructions,
+			});
 		}
 
+		const handoff = localOutput
+			? "CRITICAL: Do NOT push or create a pull request. Constech Worker verifies the quality checks and exports your commits for local review; this container has no GitHub credentials."
+			: `CRITICAL: Do NOT push or create a pull request. Constech Worker verifies the quality checks, pushes your branch and opens the PR against ${workingBranch}${workflowType === "issue" ? `, linked to issue #${issueNumber}` : ""}.`;
+
 		let workflowInstructions = `You are an autonomous development worker. Follow the complete workflow autonomously.
 
 IMPORTANT: You are starting on a clean, up-to-date ${workingBranch} branch. Verify with \`git branch\` and \`git status\`.
@@ -114,64 +136,284 @@ WORKFLOW STEPS:
 
 		if (workflowType === "issue") {
 			workflowInstructions += `
-1. Work on GitHub issue #${issueNumber}
+1. Work on GitHub issue #${issueNumber}${issueBody !== undefined ? `:\n\n${issueBody.trim()}\n` : ""}
 2. Create feature branch from ${workingBranch} (git checkout -b feat/${issueNumber}-description)
 3. Implement the solution following project conventions below
-4. Run quality checks (${qualityChecks.join(", ")})
+4. Run quality checks through the constech-check wrapper so results are recorded: ${qualityChecks.map((check) => `constech-check "${check}"`).join(", ")}
 5. Use /review for code review
-6. Create PR using bot authentication with BASE BRANCH: ${workingBranch}
-   - ${reviewerInstruction}
-   - Use --assignee and --reviewer flags in gh pr create (--reviewer requests review)
-   - Include proper PR body with issue reference
-7. Add PR to configured GitHub Project (MANDATORY)
-8. Set PR project status to "In review" (MANDATORY)
-9. Set issue status to "In review" (MANDATORY)
-
-CRITICAL: When creating PR, use --base ${workingBranch}. All PRs target ${workingBranch} branch.
+6. Commit all changes to the feature branch with descriptive commit messages
+
+${handoff}
+FINALLY: Write a 1-3 sentence summary of the changes to ${SUMMARY_FILE_PATH}
 `;
 		} else {
 			workflowInstructions += `
 1. Task: ${prompt}
 2. Create feature branch from ${workingBranch} (git checkout -b feat/prompt-based-description)
 3. Implement the solution following project conventions below
-4. Run quality checks (${qualityChecks.join(", ")})
+4. Run quality checks through the constech-check wrapper so results are recorded: ${qualityChecks.map((check) => `constech-check "${check}"`).join(", ")}
 5. Use /review for code review
-6. Create PR using bot authentication with BASE BRANCH: ${workingBranch}
-   - ${reviewerInstruction}
-   - Use --assignee and --reviewer flags in gh pr create (--reviewer requests review)
-   - Include proper PR body with task description
+6. Commit all changes to the feature branch with descriptive commit messages
 
-CRITICAL: When creating PR, use --base ${workingBranch}. All PRs target ${workingBranch} branch.
+${handoff}
+FINALLY: Write a 1-3 sentence summary of the changes to ${SUMMARY_FILE_PATH}
 `;
 		}
 
 		const projectContext = filteredInstructions.trim();
 		const separator = projectContext ? "\n\n" : "";
 
-		// Generate project configuration section if available
-		let projectConfigSection = "";
-		if (projectId || statusFieldId || inReviewStatusId) {
-			projectConfigSection = "\n\nGITHUB PROJECT CONFIGURATION:\n";
-			if (projectId) {
-				projectConfigSection += `- Project ID: ${projectId}\n`;
-			}
-			if (statusFieldId) {
-				projectConfigSection += `- Status Field ID: ${statusFieldId}\n`;
-			}
-			if (inReviewStatusId) {
-				projectConfigSection += `- Status: "In review" = ${inReviewStatusId}\n`;
-			}
-		}
-
 		const finalPrompt = `${workflowInstructions}
 
-PROJECT CONTEXT & CONVENTIONS:${separator}${projectContext}${projectConfigSection}
+PROJECT CONTEXT & CONVENTIONS:${separator}${projectContext}
 
 Complete the entire workflow autonomously without asking for confirmation.`;
 
 		return finalPrompt;
 	}
 
+	/**
+	 * Prompt for the "address review feedback" workflow: follow-up commits on
+	 * an existing PR branch, with a reply recorded for each comment handled
+	 */
+	private generateReviewPrompt(options: {
+		number: number;
+		branch: string;
+		feedback: ReviewFeedback;
+		prompt?: string;
+		qualityChecks: string[];
+		filteredInstructions: string;
+	}): string {
+		const { number, branch, feedback, prompt, qualityChecks } = options;
+
+		const comments = feedback.comments.map(
+			(comment) =>
+				`- Comment ${comment.id} on ${comment.path}${comment.line ? `:${comment.line}` : ""}\n${comment.body.replace(/^/gm, "  ")}`,
+		);
+		const requestedChanges = feedback.requestedChanges.map(
+			(review) => `- @${review.author}: ${review.body}`,
+		);
+
+		const projectContext = options.filteredInstructions.trim();
+		const separator = projectContext ? "\n\n" : "";
+
+		return `You are an autonomous development worker. Follow the complete workflow autonomously.
+
+IMPORTANT: You are on ${branch}, the head branch of pull request #${number}, with its latest commits checked out. Verify with \`git branch\` and \`git log\`.
+
+REVIEW FEEDBACK TO ADDRESS:
+${[...requestedChanges, ...comments].join("\n")}
+${prompt ? `\nADDITIONAL INSTRUCTIONS:\n${prompt}\n` : ""}
+WORKFLOW STEPS:
+1. Address the review feedback above; stay on ${branch} and do not create another branch
+2. Implement each change following project conventions below
+3. Run quality checks through the constech-check wrapper so results are recorded: ${qualityChecks.map((check) => `constech-check "${check}"`).join(", ")}
+4. Commit the follow-up changes to ${branch} with descriptive commit messages; do not rewrite existing commits
+5. Write the review comments you addressed to ${ADDRESSED_COMMENTS_PATH} as a JSON array of {"id": <comment id>, "reply": "<one sentence on what changed>"}. Leave out comments you did not address.
+
+CRITICAL: Do NOT push or comment on the pull request. Constech Worker verifies the quality checks, pushes your commits to ${branch} and replies to the addressed comments.
+FINALLY: Write a 1-3 sentence summary of the changes to ${SUMMARY_FILE_PATH}
+
+PROJECT CONTEXT & CONVENTIONS:${separator}${projectContext}
+
+Complete the entire workflow autonomously without asking for confirmation.`;
+	}
+
+	/**
+	 * Prompt for `constech-worker plan`: break an issue into ordered sub-tasks
+	 * without changing any code
+	 */
+	generatePlanningPrompt(options: {
+		issueNumber: number;
+		issueTitle: string;
+		issueBody: string;
+		workingBranch: string;
+		maxSubtasks: number;
+		filteredInstructions: string;
+	}): string {
+		const { issueNumber, issueTitle, issueBody, workingBranch, maxSubtasks } =
+			options;
+
+		const projectContext = options.filteredInstructions.trim();
+		const separator = projectContext ? "\n\n" : "";
+
+		return `You are the planning step of an autonomous development worker. You are on a read-only clone of ${workingBranch}; do not modify any files.
+
+ISSUE #${issueNumber}: ${issueTitle}
+
+${issueBody.trim() || "(no description)"}
+
+TASK:
+Read the code this issue touches and break the work into at most ${maxSubtasks} sub-tasks. Each sub-task becomes its own GitHub issue and pull request, and each one builds on the branch of the previous one, so:
+- Order them so every sub-task can be implemented, tested and reviewed on top of the ones before it
+- Keep each one small enough for a focused pull request
+- Name the files and modules involved, and say how to verify the change
+- If the issue is already small, answer with a single sub-task
+
+ANSWER FORMAT:
+End your answer with a JSON object in a \`\`\`json fenced block, and nothing after it:
+{"subtasks": [{"title": "<imperative issue title>", "body": "<markdown description>", "acceptanceCriteria": ["<testable criterion>"]}]}
+
+PROJECT CONTEXT & CONVENTIONS:${separator}${projectContext}`;
+	}
+
+	/**
+	 * Prompt for drafting the acceptance criteria of an issue about to be
+	 * created from a task description
+	 */
+	generateAcceptanceCriteriaPrompt(options: {
+		prompt: string;
+		workingBranch: string;
+		filteredInstructions: string;
+	}): string {
+		const { prompt, workingBranch } = options;
+
+		const projectContext = options.filteredInstructions.trim();
+		const separator = projectContext ? "\n\n" : "";
+
+		return `You are helping file a GitHub issue for an autonomous development worker. You are on a read-only clone of ${workingBranch}; do not modify any files.
+
+TASK DESCRIPTION:
+
+${prompt.trim()}
+
+TASK:
+Read the code this task touches and write the acceptance criteria for the issue:
+- Each criterion is one testable statement about the finished behavior
+- Cover edge cases and error handling the description implies
+- Mention the tests or documentation that should change
+- Keep it to the criteria a reviewer would check, usually three to seven
+
+ANSWER FORMAT:
+End your answer with a JSON object in a \`\`\`json fenced block, and nothing after it:
+{"acceptanceCriteria": ["<testable criterion>"]}
+
+PROJECT CONTEXT & CONVENTIONS:${separator}${projectContext}`;
+	}
+
+	/**
+	 * Prompt for triaging issues: classify, size and label each one, and say
+	 * what's missing before it can be worked on
+	 */
+	generateTriagePrompt(options: {
+		issues: { number: number; title: string; body: string }[];
+		labels: string[];
+		workingBranch: string;
+		filteredInstructions: string;
+	}): string {
+		const { issues, labels, workingBranch } = options;
+
+		const issueList = issues.map(
+			(issue) =>
+				`### #${issue.number}: ${issue.title}\n\n${issue.body.trim() || "(no description)"}`,
+		);
+
+		const projectContext = options.filteredInstructions.trim();
+		const separator = projectContext ? "\n\n" : "";
+
+		return `You are triaging issues for an autonomous development worker. You are on a read-only clone of ${workingBranch}; do not modify any files.
+
+ISSUES:
+
+${issueList.join("\n\n")}
+
+TASK:
+For each issue, read the code it touches and decide:
+- type: "bug", "feature", "chore" or "docs"
+- size: "XS", "S", "M", "L" or "XL", for the effort of one developer
+- labels: which of the repository's existing labels apply (${labels.length > 0 ? labels.map((label) => `"${label}"`).join(", ") : "there are none"})
+- actionable: whether a developer could implement it without asking anything, with a clear goal and testable acceptance criteria
+- missing: what an issue that isn't actionable lacks, such as acceptance criteria or steps to reproduce
+- questions: the clarifying questions to ask its author when it isn't actionable
+
+ANSWER FORMAT:
+End your answer with a JSON object in a \`\`\`json fenced block, and nothing after it:
+{"issues": [{"number": <issue number>, "type": "...", "size": "...", "labels": ["..."], "actionable": true | false, "missing": ["..."], "questions": ["..."]}]}
+
+PROJECT CONTEXT & CONVENTIONS:${separator}${projectContext}`;
+	}
+
+	/**
+	 * Prompt for reviewing someone else's pull request. The agent reads the
+	 * checked-out PR and answers with a verdict and inline comments.
+	 */
+	generateCodeReviewPrompt(options: {
+		number: number;
+		title: string;
+		body: string;
+		baseBranch: string;
+		filteredInstructions: string;
+	}): string {
+		const { number, title, body, baseBranch } = options;
+
+		const projectContext = options.filteredInstructions.trim();
+		const separator = projectContext ? "\n\n" : "";
+
+		return `You are a code reviewer for this project. You are on a read-only checkout of pull request #${number}; do not modify any files.
+
+PULL REQUEST #${number}: ${title}
+
+${body.trim() || "(no description)"}
+
+TASK:
+Review the changes with \`git diff origin/${baseBranch}...HEAD\` and \`git log origin/${baseBranch}..HEAD\`, reading the surrounding code where you need it:
+- Look for bugs, missing edge cases and error handling, security problems, and missing tests
+- Check that the changes follow the project conventions below
+- Only comment on lines the pull request adds or changes, and skip style nits a formatter or linter would catch
+- Be specific: say what is wrong and what to do instead
+
+Use "request_changes" when something must be fixed before merging, "approve" when the changes are ready, and "comment" otherwise.
+
+ANSWER FORMAT:
+End your answer with a JSON object in a \`\`\`json fenced block, and nothing after it:
+{"verdict": "approve" | "request_changes" | "comment", "summary": "<overall review in markdown>", "comments": [{"path": "<file path from the repository root>", "line": <line number in the new version of the file>, "body": "<comment in markdown>"}]}
+
+PROJECT CONTEXT & CONVENTIONS:${separator}${projectContext}`;
+	}
+
+	/**
+	 * Prompt for the "fix CI" workflow: follow-up commits on an existing PR
+	 * branch that make its failing checks pass
+	 */
+	private generateCiFixPrompt(options: {
+		number: number;
+		branch: string;
+		failingChecks: { name: string; details: string }[];
+		prompt?: string;
+		qualityChecks: string[];
+		filteredInstructions: string;
+	}): string {
+		const { number, branch, failingChecks, prompt, qualityChecks } = options;
+
+		const checks = failingChecks.map(
+			(check) => `### ${check.name}\n\n${check.details}`,
+		);
+
+		const projectContext = options.filteredInstructions.trim();
+		const separator = projectContext ? "\n\n" : "";
+
+		return `You are an autonomous development worker. Follow the complete workflow autonomously.
+
+IMPORTANT: You are on ${branch}, the head branch of pull request #${number}, with its latest commits checked out. Verify with \`git branch\` and \`git log\`.
+
+FAILING CI CHECKS:
+
+${checks.join("\n\n")}
+${prompt ? `\nADDITIONAL INSTRUCTIONS:\n${prompt}\n` : ""}
+WORKFLOW STEPS:
+1. Find the cause of each failing check above; stay on ${branch} and do not create another branch
+2. Make the smallest change that fixes it, following project conventions below. Do not skip, disable or loosen tests or checks.
+3. Run quality checks through the constech-check wrapper so results are recorded: ${qualityChecks.map((check) => `constech-check "${check}"`).join(", ")}
+4. Commit the fix to ${branch} with descriptive commit messages; do not rewrite existing commits
+
+CRITICAL: Do NOT push or comment on the pull request. Constech Worker verifies the quality checks and pushes your commits to ${branch}.
+FINALLY: Write a 1-3 sentence summary of the fix to ${SUMMARY_FILE_PATH}
+
+PROJECT CONTEXT & CONVENTIONS:${separator}${projectContext}
+
+Complete the entire workflow autonomously without asking for confirmation.`;
+	}
+
 	/**
 	 * Validate CLAUDE.md structure and provide recommendations
 	 */
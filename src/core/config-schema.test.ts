@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import {
+	ConfigSchema,
+	DefaultConfig,
+	MAX_TIMEOUT_MINUTES,
+} from "./config-schema.js";
+
+describe("ConfigSchema", () => {
+	const withTimeout = (timeoutMinutes: number) =>
+		ConfigSchema.safeParse({
+			...DefaultConfig,
+			workflow: { ...DefaultConfig.workflow, timeoutMinutes },
+		});
+
+	it("accepts the defaults", () => {
+		expect(ConfigSchema.safeParse(DefaultConfig).success).toBe(true);
+	});
+
+	it("caps the timeout at what a timer can wait", () => {
+		expect(withTimeout(MAX_TIMEOUT_MINUTES).success).toBe(true);
+		expect(withTimeout(40_000).success).toBe(false);
+		// setTimeout fires at once past 2^31-1 ms
+		expect(MAX_TIMEOUT_MINUTES * 60_000).toBeLessThan(2 ** 31 - 1);
+	});
+});
@@ -1,4 +1,57 @@
 import { z } from "zod";
+import { SECURITY_PROFILES } from "./container-sandbox.js";
+import { DEFAULT_ALLOWED_ASSOCIATIONS } from "./webhook-handler.js";
+
+/**
+ * Pull request templates; see src/utils/template.ts for the placeholders
+ */
+export const DEFAULT_PR_TITLE_TEMPLATE = "{{title}}";
+export const DEFAULT_PR_BODY_TEMPLATE = `## Summary
+{{summary}}
+
+{{closes}}
+
+## Commits
+{{commits}}
+
+## Quality Checks
+{{qualityChecks}}
+
+---
+*This pull request was created automatically by Constech Worker.*`;
+
+/**
+ * Templates for issues created from `--prompt --create-issue`
+ */
+export const DEFAULT_ISSUE_TITLE_TEMPLATE = "{{title}}";
+export const DEFAULT_ISSUE_BODY_TEMPLATE = `## Description
+{{description}}
+
+## Acceptance Criteria
+{{acceptanceCriteria}}
+
+---
+*This issue was created automatically by Constech Worker.*`;
+
+export const DEFAULT_ISSUE_TYPE_LABELS = {
+	feat: "enhancement",
+	fix: "bug",
+	chore: "chore",
+	docs: "documentation",
+};
+
+export const DEFAULT_TRIAGE_TYPE_LABELS = {
+	bug: "bug",
+	feature: "enhancement",
+	chore: "chore",
+	docs: "documentation",
+};
+
+/**
+ * Longest agent timeout; setTimeout fires at once beyond 2^31-1 ms (about
+ * 35,791 minutes)
+ */
+export const MAX_TIMEOUT_MINUTES = 35_000;
 
 export const ConfigSchema = z.object({
 	project: z.object({
@@ -18,6 +71,8 @@ export const ConfigSchema = z.object({
 					inProgress: z.string().nullable().optional(),
 					inReview: z.string().nullable().optional(),
 					done: z.string().nullable().optional(),
+					/** Where failed runs park their issue; falls back to ready */
+					blocked: z.string().nullable().optional(),
 				})
 				.optional(),
 		})
@@ -27,8 +82,18 @@ export const ConfigSchema = z.object({
 		username: z.string().nullable().optional(),
 	}),
 	docker: z.object({
+		/** "docker", "podman", or the socket path or URL of a Docker-compatible engine */
+		runtime: z.string().default("docker"),
 		devContainerPath: z.string().default(".devcontainer"),
+		/** Pre-built image to pull and run instead of building one */
 		customImage: z.string().nullable().optional(),
+		/** Credentials for pulling customImage and `image push` */
+		registry: z
+			.object({
+				username: z.string().nullable().optional(),
+				passwordEnvVar: z.string().default("CONSTECH_WORKER_REGISTRY_PASSWORD"),
+			})
+			.default({ passwordEnvVar: "CONSTECH_WORKER_REGISTRY_PASSWORD" }),
 		nodeVersion: z.string().default("20"),
 		mcpServers: z
 			.object({
@@ -41,6 +106,27 @@ export const ConfigSchema = z.object({
 				semgrep: false,
 				ref: false,
 			}),
+		/** Limits for each worker container; null means unlimited */
+		resources: z
+			.object({
+				/** Docker size such as "8g"; swap is capped at the same amount */
+				memory: z.string().nullable().optional(),
+				cpus: z.number().positive().nullable().optional(),
+				pidsLimit: z.number().int().positive().nullable().optional(),
+				/** Mounts /tmp as a tmpfs of this size */
+				tmpfsSize: z.string().nullable().optional(),
+				/** Writable layer size; only some storage drivers support it */
+				diskQuota: z.string().nullable().optional(),
+			})
+			.default({}),
+		/** Capabilities and seccomp; "permissive" keeps what devcontainer firewalls need */
+		securityProfile: z.enum(SECURITY_PROFILES).default("permissive"),
+		network: z
+			.object({
+				/** Only these hosts (or *.domain patterns) are reachable; null allows all */
+				allowedHosts: z.array(z.string()).nullable().optional(),
+			})
+			.default({}),
 	}),
 	workflow: z.object({
 		qualityChecks: z
@@ -49,7 +135,108 @@ export const ConfigSchema = z.object({
 		packageManager: z.enum(["npm", "yarn", "pnpm"]).default("pnpm"),
 		reviewerEnvVar: z.string().default("REVIEWER_USER"),
 		defaultReviewer: z.string().nullable().optional(),
+		concurrency: z.number().int().min(1).default(2),
+		/** Keep a progress comment on the issue while a worker runs */
+		progressComments: z.boolean().default(true),
+		/** Hard limit on the agent's run time; none when unset */
+		timeoutMinutes: z
+			.number()
+			.positive()
+			.max(MAX_TIMEOUT_MINUTES)
+			.nullable()
+			.optional(),
+		/** Stop the agent after this long without output; off when null */
+		idleTimeoutMinutes: z.number().positive().nullable().optional(),
+		/** Print agent output live instead of a spinner */
+		follow: z.boolean().default(false),
+		agentOutputFormat: z.enum(["text", "stream-json"]).default("text"),
+		/** Leave a failed run's container stopped instead of removing it */
+		keepOnFailure: z.boolean().default(false),
+		/** Save a failed run's changes as a patch under .constech-worker/runs */
+		exportPatchOnFailure: z.boolean().default(true),
+		/** `dispatch --fix-ci` runs allowed per pull request */
+		maxCiFixAttempts: z.number().int().min(1).default(3),
 	}),
+	watch: z
+		.object({
+			pollIntervalSeconds: z.number().int().min(5).default(60),
+			triggerLabel: z.string().nullable().optional(),
+		})
+		.default({
+			pollIntervalSeconds: 60,
+		}),
+	triage: z
+		.object({
+			/** Added to issues that got clarifying questions; they're skipped until it's removed */
+			needsInfoLabel: z.string().default("needs-info"),
+			/** Label applied for each issue type the agent can pick */
+			typeLabels: z
+				.record(z.enum(["bug", "feature", "chore", "docs"]), z.string())
+				.default(DEFAULT_TRIAGE_TYPE_LABELS),
+			/** Single select project field for the size estimate */
+			sizeFieldId: z.string().nullable().optional(),
+			/** Option ids of the size field, keyed by XS, S, M, L or XL */
+			sizeOptions: z.record(z.string(), z.string()).default({}),
+		})
+		.default({
+			needsInfoLabel: "needs-info",
+			typeLabels: DEFAULT_TRIAGE_TYPE_LABELS,
+			sizeOptions: {},
+		}),
+	webhook: z
+		.object({
+			port: z.number().int().min(1).max(65535).default(8787),
+			path: z.string().default("/webhook"),
+			secretEnvVar: z.string().default("GITHUB_WEBHOOK_SECRET"),
+			commentCommand: z.string().default("/constech run"),
+			triggerLabel: z.string().nullable().optional(),
+			/** `author_association` values whose comments and reviews may trigger runs */
+			allowedAssociations: z
+				.array(z.string())
+				.default(DEFAULT_ALLOWED_ASSOCIATIONS),
+			/** Logins that may trigger runs whatever their association */
+			allowedUsers: z.array(z.string()).default([]),
+		})
+		.default({
+			port: 8787,
+			path: "/webhook",
+			secretEnvVar: "GITHUB_WEBHOOK_SECRET",
+			commentCommand: "/constech run",
+			allowedAssociations: DEFAULT_ALLOWED_ASSOCIATIONS,
+			allowedUsers: [],
+		}),
+	issue: z
+		.object({
+			titleTemplate: z.string().default(DEFAULT_ISSUE_TITLE_TEMPLATE),
+			bodyTemplate: z.string().default(DEFAULT_ISSUE_BODY_TEMPLATE),
+			/** Added to every created issue, next to the one for its type */
+			labels: z.array(z.string()).default([]),
+			typeLabels: z
+				.record(z.enum(["feat", "fix", "chore", "docs"]), z.string())
+				.default(DEFAULT_ISSUE_TYPE_LABELS),
+			/** Have the agent draft acceptance criteria before filing the issue */
+			draftAcceptanceCriteria: z.boolean().default(false),
+		})
+		.default({
+			titleTemplate: DEFAULT_ISSUE_TITLE_TEMPLATE,
+			bodyTemplate: DEFAULT_ISSUE_BODY_TEMPLATE,
+			labels: [],
+			typeLabels: DEFAULT_ISSUE_TYPE_LABELS,
+			draftAcceptanceCriteria: false,
+		}),
+	pullRequest: z
+		.object({
+			titleTemplate: z.string().default(DEFAULT_PR_TITLE_TEMPLATE),
+			bodyTemplate: z.string().default(DEFAULT_PR_BODY_TEMPLATE),
+			labels: z.array(z.string()).default([]),
+			draft: z.boolean().default(false),
+		})
+		.default({
+			titleTemplate: DEFAULT_PR_TITLE_TEMPLATE,
+			bodyTemplate: DEFAULT_PR_BODY_TEMPLATE,
+			labels: [],
+			draft: false,
+		}),
 	git: z.object({
 		authorName: z.string().default("constech-worker"),
 		authorEmail: z.string().default("constech-worker@users.noreply.github.com"),
@@ -70,18 +257,75 @@ export const DefaultConfig: Partial<Config> = {
 		username: "auto-detect",
 	},
 	docker: {
+		runtime: "docker",
 		devContainerPath: ".devcontainer",
+		registry: {
+			username: null,
+			passwordEnvVar: "CONSTECH_WORKER_REGISTRY_PASSWORD",
+		},
 		nodeVersion: "20",
 		mcpServers: {
 			github: true,
 			semgrep: false,
 			ref: false,
 		},
+		resources: {
+			memory: null,
+			cpus: null,
+			pidsLimit: null,
+			tmpfsSize: null,
+			diskQuota: null,
+		},
+		securityProfile: "permissive",
+		network: {
+			allowedHosts: null,
+		},
 	},
 	workflow: {
 		qualityChecks: ["pnpm typecheck", "pnpm check", "pnpm build"],
 		packageManager: "pnpm",
 		reviewerEnvVar: "REVIEWER_USER",
+		concurrency: 2,
+		progressComments: true,
+		timeoutMinutes: null,
+		idleTimeoutMinutes: null,
+		follow: false,
+		agentOutputFormat: "text",
+		keepOnFailure: false,
+		exportPatchOnFailure: true,
+		maxCiFixAttempts: 3,
+	},
+	watch: {
+		pollIntervalSeconds: 60,
+		triggerLabel: null,
+	},
+	triage: {
+		needsInfoLabel: "needs-info",
+		typeLabels: DEFAULT_TRIAGE_TYPE_LABELS,
+		sizeFieldId: null,
+		sizeOptions: {},
+	},
+	webhook: {
+		port: 8787,
+		path: "/webhook",
+		secretEnvVar: "GITHUB_WEBHOOK_SECRET",
+		commentCommand: "/constech run",
+		triggerLabel: null,
+		allowedAssociations: DEFAULT_ALLOWED_ASSOCIATIONS,
+		allowedUsers: [],
+	},
+	issue: {
+		titleTemplate: DEFAULT_ISSUE_TITLE_TEMPLATE,
+		bodyTemplate: DEFAULT_ISSUE_BODY_TEMPLATE,
+		labels: [],
+		typeLabels: DEFAULT_ISSUE_TYPE_LABELS,
+		draftAcceptanceCriteria: false,
+	},
+	pullRequest: {
+		titleTemplate: DEFAULT_PR_TITLE_TEMPLATE,
+		bodyTemplate: DEFAULT_PR_BODY_TEMPLATE,
+		labels: [],
+		draft: false,
 	},
 	git: {
 		authorName: "constech-worker",
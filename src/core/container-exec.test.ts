@@ -0,0 +1,55 @@
+import { execFileSync } from "node:child_process";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { shellQuote, tailOutput, writeFileCommand } from "./container-exec.js";
+
+describe("writeFileCommand", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "container-exec-"));
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("writes untrusted text without running any of it", () => {
+		const marker = join(dir, "pwned");
+		const prompt = `fix it" $(touch ${marker}) \`touch ${marker}\`\n'\nCLAUDE_PROMPT_EOF\ntouch ${marker}\n✓ done`;
+		const target = join(dir, "prompt.txt");
+
+		execFileSync("bash", ["-c", writeFileCommand(target, prompt)]);
+
+		expect(readFileSync(target, "utf8")).toBe(prompt);
+		expect(existsSync(marker)).toBe(false);
+	});
+});
+
+describe("shellQuote", () => {
+	it("passes a hostile name through as one word", () => {
+		const dir = mkdtempSync(join(tmpdir(), "container-exec-"));
+		try {
+			const marker = join(dir, "pwned");
+			const branch = `fix';touch ${marker};'$(touch ${marker})`;
+
+			const output = execFileSync("bash", [
+				"-c",
+				`printf '%s' ${shellQuote(branch)}`,
+			]).toString();
+
+			expect(output).toBe(branch);
+			expect(existsSync(marker)).toBe(false);
+		} finally {
+			rmSync(dir, { recursive: true, force: true });
+		}
+	});
+});
+
+describe("tailOutput", () => {
+	it("keeps the last lines", () => {
+		expect(tailOutput("a\nb\nc\n", 2)).toBe("b\nc");
+	});
+});
@@ -0,0 +1,85 @@
+import { PassThrough } from "node:stream";
+import type Docker from "dockerode";
+
+export interface ContainerExecOptions {
+	cmd: string[];
+	user?: string;
+	workingDir?: string;
+	env?: string[];
+}
+
+export interface ContainerExecResult {
+	exitCode: number;
+	output: string;
+}
+
+/**
+ * Run a command in a running container and wait for it, collecting
+ * demultiplexed stdout and stderr into a single string
+ */
+export async function execInContainer(
+	docker: Docker,
+	container: Docker.Container,
+	options: ContainerExecOptions,
+): Promise<ContainerExecResult> {
+	const exec = await container.exec({
+		Cmd: options.cmd,
+		AttachStdout: true,
+		AttachStderr: true,
+		Tty: false,
+		User: options.user,
+		WorkingDir: options.workingDir,
+		Env: options.env,
+	});
+
+	const stream = await exec.start({});
+	const output = new PassThrough();
+	const chunks: Buffer[] = [];
+	output.on("data", (chunk: Buffer) => chunks.push(chunk));
+
+	await new Promise<void>((resolve, reject) => {
+		docker.modem.demuxStream(stream, output, output);
+		stream.on("end", () => resolve());
+		stream.on("error", reject);
+	});
+
+	const result = await exec.inspect();
+
+	return {
+		exitCode: result.ExitCode ?? -1,
+		output: Buffer.concat(chunks).toString("utf8"),
+	};
+}
+
+/**
+ * Last lines of command output with ANSI escape sequences removed
+ */
+export function tailOutput(output: string, lines: number = 20): string {
+	return (
+		output
+			// biome-ignore lint/suspicious/noControlCharactersInRegex: stripping ANSI codes
+			.replace(/\x1b\[[0-9;]*[a-zA-Z]/g, "")
+			.trimEnd()
+			.split("\n")
+			.slice(-lines)
+			.join("\n")
+	);
+}
+
+/**
+ * Shell command writing `content` to `path` in the container. The content is
+ * base64 encoded, so text from issues and comments is never parsed by the
+ * shell, whatever quotes, `$(...)` or heredoc markers it contains.
+ */
+export function writeFileCommand(path: string, content: string): string {
+	const encoded = Buffer.from(content, "utf8").toString("base64");
+	return `printf '%s' '${encoded}' | base64 -d > ${path}`;
+}
+
+/**
+ * Quote `value` as a single shell word. Branch names come from pull requests
+ * and agent output, and git allows `$`, `;` and quotes in them.
+ */
+export function shellQuote(value: string): string {
+	return `'${value.replace(/'/g, "'\\''")}'`;
+}
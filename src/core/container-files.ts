@@ -0,0 +1,67 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: will fix later */
+import type Docker from "dockerode";
+
+const TAR_BLOCK_SIZE = 512;
+
+/**
+ * Copy a single file out of a container via the Docker archive API.
+ * Returns null when the file does not exist.
+ */
+export async function readFileFromContainer(
+	container: Docker.Container,
+	path: string,
+): Promise<Buffer | null> {
+	let archive: NodeJS.ReadableStream;
+	try {
+		archive = await container.getArchive({ path });
+	} catch (error: any) {
+		if (error?.statusCode === 404) {
+			return null;
+		}
+		throw error;
+	}
+
+	const tarball = await streamToBuffer(archive);
+	return extractFirstFile(tarball);
+}
+
+async function streamToBuffer(stream: NodeJS.ReadableStream): Promise<Buffer> {
+	const chunks: Buffer[] = [];
+	for await (const chunk of stream) {
+		chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+	}
+	return Buffer.concat(chunks);
+}
+
+/**
+ * Minimal tar reader: return the contents of the first regular file entry,
+ * skipping PAX/GNU extension headers Docker may emit for long names
+ */
+function extractFirstFile(tarball: Buffer): Buffer | null {
+	let offset = 0;
+
+	while (offset + TAR_BLOCK_SIZE <= tarball.length) {
+		const header = tarball.subarray(offset, offset + TAR_BLOCK_SIZE);
+
+		// Two zero blocks mark the end of the archive
+		if (header.every((byte) => byte === 0)) {
+			return null;
+		}
+
+		const size = parseInt(
+			header.subarray(124, 136).toString("ascii").replace(/\0.*$/, "").trim(),
+			8,
+		);
+		const type = String.fromCharCode(header[156]);
+		const dataStart = offset + TAR_BLOCK_SIZE;
+
+		if (type === "0" || type === "\0") {
+			return tarball.subarray(dataStart, dataStart + size);
+		}
+
+		offset =
+			dataStart + Math.ceil((size || 0) / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+	}
+
+	return null;
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+	connectionOptions,
+	createContainerRuntime,
+	findPodmanSocket,
+	tlsOptions,
+} from "./container-runtime.js";
+
+describe("connectionOptions", () => {
+	it("connects to sockets", () => {
+		expect(connectionOptions("/run/podman/podman.sock")).toEqual({
+			socketPath: "/run/podman/podman.sock",
+		});
+		expect(connectionOptions("unix:///var/run/docker.sock")).toEqual({
+			socketPath: "/var/run/docker.sock",
+		});
+	});
+
+	it("connects to TCP endpoints", () => {
+		expect(connectionOptions("tcp://10.0.0.5:2375")).toEqual({
+			protocol: "http",
+			host: "10.0.0.5",
+			port: "2375",
+		});
+		expect(
+			connectionOptions("https://docker.internal", {
+				DOCKER_CERT_PATH: "/nonexistent",
+			}),
+		).toEqual({
+			protocol: "https",
+			host: "docker.internal",
+			port: "2376",
+		});
+	});
+
+	it("uses TLS for tcp:// when DOCKER_TLS_VERIFY is set", () => {
+		expect(
+			connectionOptions("tcp://10.0.0.5:2376", {
+				DOCKER_TLS_VERIFY: "1",
+				DOCKER_CERT_PATH: "/nonexistent",
+			}),
+		).toMatchObject({ protocol: "https", port: "2376" });
+	});
+
+	it("rejects anything else", () => {
+		expect(() => connectionOptions("ssh://build-host")).toThrow(
+			'Unsupported container runtime "ssh://build-host"',
+		);
+	});
+});
+
+describe("tlsOptions", () => {
+	it("reads the client certificates from DOCKER_CERT_PATH", () => {
+		const options = tlsOptions(
+			{ DOCKER_CERT_PATH: "/certs" },
+			(path) => path !== "/certs/ca.pem",
+			(path) => Buffer.from(path),
+		);
+
+		expect(options).toEqual({
+			cert: Buffer.from("/certs/cert.pem"),
+			key: Buffer.from("/certs/key.pem"),
+		});
+	});
+});
+
+describe("findPodmanSocket", () => {
+	it("prefers CONTAINER_HOST", () => {
+		expect(
+			findPodmanSocket(
+				{ CONTAINER_HOST: "unix:///tmp/podman.sock" },
+				() => false,
+			),
+		).toBe("unix:///tmp/podman.sock");
+	});
+
+	it("uses the rootless socket, then the rootful one", () => {
+		const env = { XDG_RUNTIME_DIR: "/run/user/1000" };
+		expect(findPodmanSocket(env, () => true)).toBe(
+			"unix:///run/user/1000/podman/podman.sock",
+		);
+		expect(
+			findPodmanSocket(env, (path) => path === "/run/podman/podman.sock"),
+		).toBe("unix:///run/podman/podman.sock");
+	});
+});
+
+describe("createContainerRuntime", () => {
+	it("uses the matching CLI for a custom socket", () => {
+		const podman = createContainerRuntime("/run/user/1000/podman/podman.sock");
+		expect(podman.kind).toBe("podman");
+		expect(podman.cliEnv.CONTAINER_HOST).toBe(
+			"unix:///run/user/1000/podman/podman.sock",
+		);
+
+		const docker = createContainerRuntime("tcp://10.0.0.5:2375");
+		expect(docker.cli).toBe("docker");
+		expect(docker.cliEnv.DOCKER_HOST).toBe("tcp://10.0.0.5:2375");
+	});
+
+	it("points the Docker CLI at a TLS endpoint", () => {
+		const runtime = createContainerRuntime("https://docker.internal");
+		expect(runtime.cliEnv.DOCKER_HOST).toBe("tcp://docker.internal:2376");
+		expect(runtime.cliEnv.DOCKER_TLS_VERIFY).toBe("1");
+	});
+});
@@ -0,0 +1,189 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: will fix later */
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import Docker from "dockerode";
+import type { Config } from "./config-schema.js";
+
+export type RuntimeKind = "docker" | "podman";
+
+/**
+ * The engine workers run on. Everything goes through the Docker API, which
+ * Podman also serves, except what's simpler through the CLI: image builds and
+ * interactive shells.
+ */
+export interface ContainerRuntime {
+	kind: RuntimeKind;
+	/** API endpoint, or undefined for the Docker default (which honors DOCKER_HOST) */
+	host?: string;
+	docker: Docker;
+	/** Binary for the commands run through the CLI */
+	cli: RuntimeKind;
+	/** Environment for the CLI, so it reaches the same engine as the API */
+	cliEnv: NodeJS.ProcessEnv;
+}
+
+/**
+ * Podman's API socket: CONTAINER_HOST, then the rootless socket of the current
+ * user, then the rootful one
+ */
+export function findPodmanSocket(
+	env: NodeJS.ProcessEnv = process.env,
+	exists: (path: string) => boolean = existsSync,
+): string {
+	if (env.CONTAINER_HOST) {
+		return env.CONTAINER_HOST;
+	}
+
+	const runtimeDir =
+		env.XDG_RUNTIME_DIR ??
+		(process.getuid ? `/run/user/${process.getuid()}` : undefined);
+	const candidates = [
+		...(runtimeDir ? [join(runtimeDir, "podman", "podman.sock")] : []),
+		"/run/podman/podman.sock",
+	];
+	const socket = candidates.find((path) => exists(path)) ?? candidates[0];
+	return `unix://${socket}`;
+}
+
+/**
+ * Client certificates for a TLS endpoint, read like the Docker CLI does from
+ * `DOCKER_CERT_PATH` (default `~/.docker`): ca.pem, cert.pem and key.pem.
+ * Missing files are left out, so a server with a public certificate works too.
+ */
+export function tlsOptions(
+	env: NodeJS.ProcessEnv = process.env,
+	exists: (path: string) => boolean = existsSync,
+	read: (path: string) => Buffer = readFileSync,
+): Pick<Docker.DockerOptions, "ca" | "cert" | "key"> {
+	const certPath = env.DOCKER_CERT_PATH || join(homedir(), ".docker");
+	const options: Pick<Docker.DockerOptions, "ca" | "cert" | "key"> = {};
+
+	for (const [key, file] of [
+		["ca", "ca.pem"],
+		["cert", "cert.pem"],
+		["key", "key.pem"],
+	] as const) {
+		const path = join(certPath, file);
+		if (exists(path)) {
+			options[key] = read(path);
+		}
+	}
+	return options;
+}
+
+/**
+ * Dockerode connection options for a `unix://`, `npipe://`, `tcp://` or
+ * `http(s)://` endpoint, or a bare socket path. An `https://` endpoint, or a
+ * `tcp://` one with DOCKER_TLS_VERIFY set, connects over TLS.
+ */
+export function connectionOptions(
+	host: string,
+	env: NodeJS.ProcessEnv = process.env,
+): Docker.DockerOptions {
+	if (host.startsWith("/")) {
+		return { socketPath: host };
+	}
+	if (host.startsWith("unix://")) {
+		return { socketPath: host.slice("unix://".length) };
+	}
+	if (host.startsWith("npipe://")) {
+		return { socketPath: host.slice("npipe://".length) };
+	}
+
+	const match = host.match(/^(tcp|http|https):\/\/([^/:]+)(?::(\d+))?\/?$/);
+	if (!match) {
+		throw new Error(
+			`Unsupported container runtime "${host}", expected docker, podman, a socket path or a unix://, tcp:// or https:// URL`,
+		);
+	}
+	const [, scheme, hostname, port] = match;
+	const tls =
+		scheme === "https" || (scheme === "tcp" && Boolean(env.DOCKER_TLS_VERIFY));
+	if (!tls) {
+		return { protocol: "http", host: hostname, port: port ?? "2375" };
+	}
+	return {
+		protocol: "https",
+		host: hostname,
+		port: port ?? "2376",
+		...tlsOptions(env),
+	};
+}
+
+/**
+ * Connect to the runtime selected by `docker.runtime`: `docker` (the default
+ * socket or DOCKER_HOST), `podman` (its rootless or rootful socket), or the
+ * socket path or URL of any Docker-compatible engine
+ */
+export function createContainerRuntime(
+	setting: Config["docker"]["runtime"] = "docker",
+): ContainerRuntime {
+	if (setting === "docker") {
+		return {
+			kind: "docker",
+			host: process.env.DOCKER_HOST,
+			docker: new Docker(),
+			cli: "docker",
+			cliEnv: process.env,
+		};
+	}
+
+	if (setting === "podman") {
+		const host = findPodmanSocket();
+		return {
+			kind: "podman",
+			host,
+			docker: new Docker(connectionOptions(host)),
+			cli: "podman",
+			// A local podman shares images and containers with its own socket
+			cliEnv: process.env,
+		};
+	}
+
+	const host = setting.startsWith("/") ? `unix://${setting}` : setting;
+	// A Podman socket is usually named after it; its API works either way
+	const kind: RuntimeKind = host.includes("podman") ? "podman" : "docker";
+	return {
+		kind,
+		host,
+		docker: new Docker(connectionOptions(host)),
+		cli: kind,
+		cliEnv: {
+			...process.env,
+			...(kind === "podman" ? { CONTAINER_HOST: host } : dockerCliEnv(host)),
+		},
+	};
+}
+
+/**
+ * DOCKER_HOST for the Docker CLI, which only takes TLS endpoints as `tcp://`
+ * with DOCKER_TLS_VERIFY
+ */
+function dockerCliEnv(host: string): NodeJS.ProcessEnv {
+	if (!host.startsWith("https://")) {
+		return { DOCKER_HOST: host };
+	}
+	const address = host.slice("https://".length).replace(/\/$/, "");
+	return {
+		DOCKER_HOST: `tcp://${address.includes(":") ? address : `${address}:2376`}`,
+		DOCKER_TLS_VERIFY: "1",
+	};
+}
+
+/**
+ * Name and version of the engine behind the API, as Podman reports itself
+ * among the version components
+ */
+export async function detectEngine(
+	runtime: ContainerRuntime,
+): Promise<{ name: string; version: string }> {
+	const version: any = await runtime.docker.version();
+	const podman = version.Components?.find((component: any) =>
+		/podman/i.test(component?.Name ?? ""),
+	);
+	if (podman) {
+		return { name: "Podman", version: podman.Version ?? version.Version };
+	}
+	return { name: "Docker", version: version.Version };
+}
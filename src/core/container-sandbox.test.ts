@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { ConfigSchema } from "./config-schema.js";
+import {
+	parseByteSize,
+	parseOomKillCount,
+	proxyHostConfig,
+	sandboxHostConfig,
+} from "./container-sandbox.js";
+
+function dockerConfig(docker: Record<string, unknown>) {
+	return ConfigSchema.shape.docker.parse(docker);
+}
+
+describe("parseByteSize", () => {
+	it("parses Docker-style sizes", () => {
+		expect(parseByteSize("512m")).toBe(512 * 1024 ** 2);
+		expect(parseByteSize("1.5G")).toBe(1.5 * 1024 ** 3);
+		expect(parseByteSize("2gb")).toBe(2 * 1024 ** 3);
+		expect(parseByteSize("4096")).toBe(4096);
+	});
+
+	it("rejects anything else", () => {
+		expect(() => parseByteSize("lots")).toThrow('Invalid size "lots"');
+	});
+});
+
+describe("sandboxHostConfig", () => {
+	it("applies resource limits", () => {
+		const hostConfig = sandboxHostConfig(
+			dockerConfig({
+				resources: { memory: "8g", cpus: 1.5, pidsLimit: 512, tmpfsSize: "1g" },
+			}),
+		);
+
+		expect(hostConfig).toMatchObject({
+			Memory: 8 * 1024 ** 3,
+			MemorySwap: 8 * 1024 ** 3,
+			NanoCpus: 1.5e9,
+			PidsLimit: 512,
+			Tmpfs: { "/tmp": `rw,exec,nosuid,size=${1024 ** 3},mode=1777` },
+		});
+		expect(hostConfig.StorageOpt).toBeUndefined();
+	});
+
+	it("maps security profiles to capabilities and seccomp", () => {
+		expect(
+			sandboxHostConfig(dockerConfig({ securityProfile: "default" })),
+		).toEqual({ Privileged: false });
+		expect(
+			sandboxHostConfig(dockerConfig({ securityProfile: "strict" })),
+		).toMatchObject({
+			CapDrop: ["ALL"],
+			SecurityOpt: ["no-new-privileges:true"],
+		});
+		expect(
+			sandboxHostConfig(dockerConfig({ securityProfile: "permissive" })),
+		).toMatchObject({ SecurityOpt: ["seccomp=unconfined"] });
+	});
+
+	it("keeps the permissive profile earlier versions ran with by default", () => {
+		expect(sandboxHostConfig(dockerConfig({}))).toMatchObject({
+			CapAdd: ["NET_ADMIN", "NET_RAW", "SYS_PTRACE"],
+			SecurityOpt: ["seccomp=unconfined"],
+		});
+	});
+});
+
+describe("proxyHostConfig", () => {
+	it("limits the proxy like a worker but drops every capability", () => {
+		const hostConfig = proxyHostConfig(
+			dockerConfig({
+				securityProfile: "permissive",
+				resources: {
+					memory: "8g",
+					pidsLimit: 512,
+					tmpfsSize: "1g",
+					diskQuota: "20g",
+				},
+			}),
+		);
+
+		expect(hostConfig).toEqual({
+			Privileged: false,
+			CapDrop: ["ALL"],
+			SecurityOpt: ["no-new-privileges:true"],
+			Memory: 8 * 1024 ** 3,
+			MemorySwap: 8 * 1024 ** 3,
+			PidsLimit: 512,
+		});
+	});
+});
+
+describe("parseOomKillCount", () => {
+	it("reads cgroup v2 memory.events", () => {
+		expect(
+			parseOomKillCount(
+				"low 0\nhigh 0\nmax 12\noom 3\noom_kill 2\noom_group_kill 0\n",
+			),
+		).toBe(2);
+	});
+
+	it("reads cgroup v1 memory.oom_control", () => {
+		expect(
+			parseOomKillCount("oom_kill_disable 0\nunder_oom 0\noom_kill 1\n"),
+		).toBe(1);
+	});
+
+	it("returns null without a counter", () => {
+		expect(parseOomKillCount("oom_kill_disable 0\nunder_oom 0\n")).toBeNull();
+	});
+});
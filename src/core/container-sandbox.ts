@@ -0,0 +1,142 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: will fix later */
+import type Docker from "dockerode";
+import type { Config } from "./config-schema.js";
+import { execInContainer } from "./container-exec.js";
+
+export const SECURITY_PROFILES = ["strict", "default", "permissive"] as const;
+
+export type SecurityProfile = (typeof SECURITY_PROFILES)[number];
+
+/** Exit code of a process killed with SIGKILL, which is what the OOM killer sends */
+export const SIGKILL_EXIT_CODE = 137;
+
+const BYTE_UNITS: Record<string, number> = {
+	"": 1,
+	b: 1,
+	k: 1024,
+	m: 1024 ** 2,
+	g: 1024 ** 3,
+	t: 1024 ** 4,
+};
+
+/**
+ * Parse a Docker-style size such as `512m`, `8g` or `1.5G` into bytes
+ */
+export function parseByteSize(size: string): number {
+	const match = size
+		.trim()
+		.toLowerCase()
+		.match(/^(\d+(?:\.\d+)?)\s*([bkmgt]?)b?$/);
+	if (!match) {
+		throw new Error(`Invalid size "${size}", expected e.g. 512m or 8g`);
+	}
+	return Math.floor(parseFloat(match[1]) * BYTE_UNITS[match[2]]);
+}
+
+/**
+ * Capabilities and seccomp settings of each security profile:
+ * - strict drops every capability and forbids privilege escalation, so sudo
+ *   doesn't work in the container
+ * - default keeps Docker's default capabilities and seccomp profile
+ * - permissive adds network administration and ptrace, and disables seccomp
+ */
+function securityOptions(profile: SecurityProfile): Docker.HostConfig {
+	switch (profile) {
+		case "strict":
+			return { CapDrop: ["ALL"], SecurityOpt: ["no-new-privileges:true"] };
+		case "default":
+			return {};
+		case "permissive":
+			return {
+				CapAdd: ["NET_ADMIN", "NET_RAW", "SYS_PTRACE"],
+				SecurityOpt: ["seccomp=unconfined"],
+			};
+	}
+}
+
+/**
+ * Resource limits and security settings for a worker container, from the
+ * `docker.resources` and `docker.securityProfile` config
+ */
+export function sandboxHostConfig(docker: Config["docker"]): Docker.HostConfig {
+	const { memory, cpus, pidsLimit, tmpfsSize, diskQuota } = docker.resources;
+	const hostConfig: Docker.HostConfig = {
+		Privileged: false,
+		...securityOptions(docker.securityProfile),
+	};
+
+	if (memory) {
+		hostConfig.Memory = parseByteSize(memory);
+		// Without swap, hitting the limit kills instead of thrashing
+		hostConfig.MemorySwap = hostConfig.Memory;
+	}
+	if (cpus) {
+		hostConfig.NanoCpus = Math.round(cpus * 1e9);
+	}
+	if (pidsLimit) {
+		hostConfig.PidsLimit = pidsLimit;
+	}
+	if (tmpfsSize) {
+		hostConfig.Tmpfs = {
+			"/tmp": `rw,exec,nosuid,size=${parseByteSize(tmpfsSize)},mode=1777`,
+		};
+	}
+	if (diskQuota) {
+		hostConfig.StorageOpt = { size: diskQuota };
+	}
+
+	return hostConfig;
+}
+
+/**
+ * Limits and security settings for the egress proxy: the workers' memory,
+ * CPU and process limits under the strict profile, since the proxy is a
+ * plain node script that needs no capabilities whatever the workers get
+ */
+export function proxyHostConfig(docker: Config["docker"]): Docker.HostConfig {
+	return sandboxHostConfig({
+		...docker,
+		securityProfile: "strict",
+		resources: { ...docker.resources, tmpfsSize: null, diskQuota: null },
+	});
+}
+
+/**
+ * Whether Docker rejected a container because its storage driver can't
+ * enforce a disk quota
+ */
+export function isDiskQuotaUnsupported(error: any): boolean {
+	return /storage-?opt|storage option|quota/i.test(String(error?.message));
+}
+
+/**
+ * The `oom_kill` counter from a cgroup's memory.events (v2) or
+ * memory.oom_control (v1), or null when it's missing
+ */
+export function parseOomKillCount(events: string): number | null {
+	const match = events.match(/^oom_kill\s+(\d+)\s*$/m);
+	return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * How often the kernel's OOM killer has killed a process in the container.
+ * Docker only sets State.OOMKilled when the main process is the victim, which
+ * for workers is `sleep infinity`, so exec'd processes need the cgroup.
+ */
+export async function readOomKillCount(
+	docker: Docker,
+	container: Docker.Container,
+): Promise<number | null> {
+	try {
+		const { exitCode, output } = await execInContainer(docker, container, {
+			cmd: [
+				"/bin/sh",
+				"-c",
+				"cat /sys/fs/cgroup/memory.events 2>/dev/null || cat /sys/fs/cgroup/memory/memory.oom_control",
+			],
+		});
+		return exitCode === 0 ? parseOomKillCount(output) : null;
+	} catch {
+		return null;
+	}
+}
@@ -0,0 +1,140 @@
+import type Docker from "dockerode";
+import { describe, expect, it } from "vitest";
+import {
+	EGRESS_WORKER_LABEL,
+	generateProxyScript,
+	isHostAllowed,
+	parseBlockedConnections,
+	removeEgressResources,
+} from "./egress-proxy.js";
+
+describe("isHostAllowed", () => {
+	it("matches hosts exactly or by wildcard subdomain", () => {
+		const allowed = ["github.com", "*.githubusercontent.com"];
+
+		expect(isHostAllowed("GitHub.com", allowed)).toBe(true);
+		expect(isHostAllowed("api.github.com", allowed)).toBe(false);
+		expect(isHostAllowed("objects.githubusercontent.com", allowed)).toBe(true);
+		expect(isHostAllowed("githubusercontent.com", allowed)).toBe(false);
+		expect(isHostAllowed("evilgithub.com", allowed)).toBe(false);
+	});
+});
+
+describe("generateProxyScript", () => {
+	it("produces valid JavaScript", () => {
+		expect(
+			() => new Function(generateProxyScript(["github.com"])),
+		).not.toThrow();
+	});
+});
+
+describe("parseBlockedConnections", () => {
+	it("reads blocked attempts from framed proxy output", () => {
+		const log = [
+			'\u0001\u0000\u0000\u0000\u0000\u0000\u0000Z{"event":"blocked","host":"example.com","port":443,"method":"CONNECT","time":"2025-01-01T00:00:00.000Z"}',
+			"some other output",
+		].join("\n");
+
+		expect(parseBlockedConnections(log)).toEqual([
+			{
+				host: "example.com",
+				port: 443,
+				method: "CONNECT",
+				time: "2025-01-01T00:00:00.000Z",
+			},
+		]);
+	});
+});
+
+describe("removeEgressResources", () => {
+	/** In-memory stand-in for the parts of the Docker API the cleanup uses */
+	function fakeDocker() {
+		const label = (worker: string) => ({ [EGRESS_WORKER_LABEL]: worker });
+		const containers = [
+			{ Id: "w1", Names: ["/constech-worker-app-1"], Labels: {} },
+			{
+				Id: "p1",
+				Names: ["/constech-egress-app-1-proxy"],
+				Labels: label("constech-worker-app-1"),
+			},
+			{
+				Id: "p2",
+				Names: ["/constech-egress-app-2-proxy"],
+				Labels: label("constech-worker-app-2"),
+			},
+		];
+		const networks = [
+			{
+				Id: "n1",
+				Name: "constech-egress-app-1-net",
+				Labels: label("constech-worker-app-1"),
+				inUse: true,
+			},
+			{
+				Id: "n2",
+				Name: "constech-egress-app-2-net",
+				Labels: label("constech-worker-app-2"),
+				inUse: false,
+			},
+		];
+		const matches = (
+			labels: Record<string, string>,
+			filters: { label: string[] },
+		) => {
+			const [key, value] = filters.label[0].split("=");
+			return key in labels && (value === undefined || labels[key] === value);
+		};
+
+		const docker = {
+			listContainers: async ({
+				filters,
+			}: {
+				filters?: { label: string[] };
+			} = {}) =>
+				filters
+					? containers.filter((c) => matches(c.Labels, filters))
+					: containers,
+			listNetworks: async ({ filters }: { filters: { label: string[] } }) =>
+				networks.filter((n) => matches(n.Labels, filters)),
+			getContainer: (id: string) => ({
+				remove: async () => {
+					containers.splice(
+						containers.findIndex((c) => c.Id === id),
+						1,
+					);
+				},
+			}),
+			getNetwork: (id: string) => ({
+				remove: async () => {
+					const index = networks.findIndex((n) => n.Id === id);
+					if (networks[index].inUse) {
+						throw new Error("network has active endpoints");
+					}
+					networks.splice(index, 1);
+				},
+			}),
+		};
+		return { docker: docker as unknown as Docker, containers, networks };
+	}
+
+	it("removes what removed workers left behind and spares the rest", async () => {
+		const { docker, containers, networks } = fakeDocker();
+
+		expect(await removeEgressResources(docker)).toEqual([
+			"constech-egress-app-2-net",
+		]);
+		expect(containers.map((c) => c.Id)).toEqual(["w1", "p1"]);
+		expect(networks.map((n) => n.Id)).toEqual(["n1"]);
+	});
+
+	it("removes only the given worker's proxy and network", async () => {
+		const { docker, containers, networks } = fakeDocker();
+		networks[0].inUse = false;
+
+		expect(
+			await removeEgressResources(docker, "constech-worker-app-1"),
+		).toEqual(["constech-egress-app-1-net"]);
+		expect(containers.map((c) => c.Id)).toEqual(["w1", "p2"]);
+		expect(networks.map((n) => n.Id)).toEqual(["n2"]);
+	});
+});
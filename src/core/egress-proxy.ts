@@ -0,0 +1,276 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: will fix later */
+import type Docker from "dockerode";
+import { logger } from "../utils/logger.js";
+
+/** Hostname of the proxy on the worker's network */
+export const EGRESS_PROXY_HOST = "egress-proxy";
+export const EGRESS_PROXY_PORT = 3128;
+
+/** Label on the egress network and proxy, naming the worker container they serve */
+export const EGRESS_WORKER_LABEL = "constech-worker.egress-for";
+
+export interface BlockedConnection {
+	host: string;
+	port: number;
+	method: string;
+	time: string;
+}
+
+/**
+ * Whether `host` is on the allowlist. Entries match exactly, and `*.` entries
+ * match any subdomain.
+ */
+export function isHostAllowed(host: string, allowedHosts: string[]): boolean {
+	const name = host.toLowerCase().replace(/\.$/, "");
+	return allowedHosts.some((entry) => {
+		const allowed = entry.toLowerCase();
+		return allowed.startsWith("*.")
+			? name.endsWith(allowed.slice(1))
+			: name === allowed;
+	});
+}
+
+/**
+ * Source of the proxy the worker's traffic goes through: plain HTTP requests
+ * and CONNECT tunnels to allowed hosts pass, everything else is refused and
+ * logged as a JSON line on stdout
+ */
+export function generateProxyScript(allowedHosts: string[]): string {
+	// isHostAllowed has no dependencies, so its compiled source runs as is
+	return `
+const http = require("node:http");
+const net = require("node:net");
+const allowedHosts = ${JSON.stringify(allowedHosts)};
+const isHostAllowed = ${isHostAllowed.toString()};
+
+function block(host, port, method) {
+  console.log(JSON.stringify({ event: "blocked", host, port, method, time: new Date().toISOString() }));
+}
+
+const server = http.createServer((req, res) => {
+  let url;
+  try {
+    url = new URL(req.url);
+  } catch {
+    res.writeHead(400).end();
+    return;
+  }
+  if (!isHostAllowed(url.hostname, allowedHosts)) {
+    block(url.hostname, Number(url.port) || 80, req.method);
+    res.writeHead(403).end("Blocked by the constech-worker egress allowlist\\n");
+    return;
+  }
+  const upstream = http.request(url, { method: req.method, headers: req.headers }, (response) => {
+    res.writeHead(response.statusCode, response.headers);
+    response.pipe(res);
+  });
+  upstream.on("error", () => res.writeHead(502).end());
+  req.pipe(upstream);
+});
+
+server.on("connect", (req, socket, head) => {
+  const separator = req.url.lastIndexOf(":");
+  const host = req.url.slice(0, separator).replace(/^\\[|\\]$/g, "");
+  const port = Number(req.url.slice(separator + 1)) || 443;
+  if (!isHostAllowed(host, allowedHosts)) {
+    block(host, port, "CONNECT");
+    socket.end("HTTP/1.1 403 Forbidden\\r\\n\\r\\n");
+    return;
+  }
+  const upstream = net.connect(port, host, () => {
+    socket.write("HTTP/1.1 200 Connection Established\\r\\n\\r\\n");
+    upstream.write(head);
+    upstream.pipe(socket);
+    socket.pipe(upstream);
+  });
+  upstream.on("error", () => socket.end("HTTP/1.1 502 Bad Gateway\\r\\n\\r\\n"));
+  socket.on("error", () => upstream.destroy());
+});
+
+server.listen(${EGRESS_PROXY_PORT});
+`;
+}
+
+/**
+ * Pick the blocked attempts out of the proxy's log
+ */
+export function parseBlockedConnections(log: string): BlockedConnection[] {
+	const blocked: BlockedConnection[] = [];
+	for (const line of log.split("\n")) {
+		// Docker's log framing puts a binary header before each line
+		const start = line.indexOf('{"event"');
+		if (start === -1) {
+			continue;
+		}
+		try {
+			const entry = JSON.parse(line.slice(start));
+			if (entry.event === "blocked") {
+				blocked.push({
+					host: entry.host,
+					port: entry.port,
+					method: entry.method,
+					time: entry.time,
+				});
+			}
+		} catch {
+			// Not one of ours
+		}
+	}
+	return blocked;
+}
+
+/**
+ * An internal Docker network without a route out, and a proxy container that
+ * is the only way out of it
+ */
+export class EgressProxy {
+	private docker: Docker;
+	private workerName: string;
+	private networkName: string;
+	private proxyName: string;
+	private proxyId?: string;
+
+	constructor(docker: Docker, workerName: string) {
+		this.docker = docker;
+		this.workerName = workerName;
+		const name = workerName.replace(/^constech-worker-/, "constech-egress-");
+		this.networkName = `${name}-net`;
+		this.proxyName = `${name}-proxy`;
+	}
+
+	/**
+	 * Create the network and start the proxy from `image`, which needs node,
+	 * with `hostConfig` limiting it. Returns the network mode and environment
+	 * for the worker container.
+	 */
+	async start(
+		image: string,
+		allowedHosts: string[],
+		hostConfig: Docker.HostConfig,
+	): Promise<{ networkMode: string; env: string[] }> {
+		const network = await this.docker.createNetwork({
+			Name: this.networkName,
+			Internal: true,
+			Labels: { [EGRESS_WORKER_LABEL]: this.workerName },
+		});
+
+		const proxy = await this.docker.createContainer({
+			name: this.proxyName,
+			Image: image,
+			User: "worker",
+			Cmd: ["node", "-e", generateProxyScript(allowedHosts)],
+			Labels: { [EGRESS_WORKER_LABEL]: this.workerName },
+			Tty: false,
+			HostConfig: hostConfig,
+		});
+		this.proxyId = proxy.id;
+		await network.connect({
+			Container: proxy.id,
+			EndpointConfig: { Aliases: [EGRESS_PROXY_HOST] },
+		});
+		await proxy.start();
+
+		const proxyUrl = `http://${EGRESS_PROXY_HOST}:${EGRESS_PROXY_PORT}`;
+		return {
+			networkMode: this.networkName,
+			env: [
+				`HTTP_PROXY=${proxyUrl}`,
+				`HTTPS_PROXY=${proxyUrl}`,
+				`http_proxy=${proxyUrl}`,
+				`https_proxy=${proxyUrl}`,
+				"NO_PROXY=localhost,127.0.0.1",
+				"no_proxy=localhost,127.0.0.1",
+			],
+		};
+	}
+
+	/**
+	 * Requests the proxy refused so far. Connections that ignore the proxy
+	 * settings have no route out and fail without reaching it, so they are
+	 * not in this list.
+	 */
+	async blockedConnections(): Promise<BlockedConnection[]> {
+		if (!this.proxyId) {
+			return [];
+		}
+		try {
+			const log = await this.docker
+				.getContainer(this.proxyId)
+				.logs({ stdout: true, stderr: false, follow: false });
+			return parseBlockedConnections(log.toString("utf8"));
+		} catch (error: any) {
+			logger.warning(`Failed to read the egress proxy log: ${error?.message}`);
+			return [];
+		}
+	}
+
+	/**
+	 * Remove the proxy and the network. The network stays while a kept worker
+	 * container is still attached to it; `containers --clean` removes it later.
+	 */
+	async stop(): Promise<void> {
+		if (this.proxyId) {
+			try {
+				await this.docker.getContainer(this.proxyId).remove({ force: true });
+			} catch (error: any) {
+				logger.debug(`Failed to remove egress proxy: ${error?.message}`);
+			}
+			this.proxyId = undefined;
+		}
+
+		try {
+			await this.docker.getNetwork(this.networkName).remove();
+		} catch (error: any) {
+			logger.debug(
+				`Failed to remove network ${this.networkName}: ${error?.message}`,
+			);
+		}
+	}
+}
+
+/**
+ * Remove egress proxies and networks left behind by removed workers, or only
+ * those of `workerName`. Networks a container still uses are skipped.
+ * Returns the names of the removed networks.
+ */
+export async function removeEgressResources(
+	docker: Docker,
+	workerName?: string,
+): Promise<string[]> {
+	const filters = {
+		label: [
+			workerName ? `${EGRESS_WORKER_LABEL}=${workerName}` : EGRESS_WORKER_LABEL,
+		],
+	};
+
+	const proxies = await docker.listContainers({ all: true, filters });
+	const workers = new Set(
+		(await docker.listContainers({ all: true })).map((container) =>
+			container.Names[0]?.replace(/^\//, ""),
+		),
+	);
+	for (const proxy of proxies) {
+		// A kept worker's proxy is already gone, but a running worker needs its own
+		if (!workerName && workers.has(proxy.Labels?.[EGRESS_WORKER_LABEL])) {
+			continue;
+		}
+		try {
+			await docker.getContainer(proxy.Id).remove({ force: true });
+		} catch (error: any) {
+			logger.debug(`Failed to remove egress proxy: ${error?.message}`);
+		}
+	}
+
+	const removed: string[] = [];
+	for (const network of await docker.listNetworks({ filters })) {
+		try {
+			await docker.getNetwork(network.Id).remove();
+			removed.push(network.Name);
+		} catch (error: any) {
+			logger.debug(
+				`Failed to remove network ${network.Name}: ${error?.message}`,
+			);
+		}
+	}
+	return removed;
+}
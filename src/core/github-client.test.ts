@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { GitHubClient } from "./github-client.js";
+
+/** Stand in for the Octokit calls getCheckStatus makes */
+const withChecks = (
+	checkRuns: Record<string, unknown>[],
+	statuses: Record<string, unknown>[] = [],
+) => {
+	const client = new GitHubClient("token");
+	const downloads: unknown[] = [];
+	Object.assign(client, {
+		octokit: {
+			paginate: async () => checkRuns,
+			rest: {
+				checks: { listForRef: async () => ({}) },
+				actions: {
+					downloadJobLogsForWorkflowRun: async (params: { job_id: number }) => {
+						downloads.push(params.job_id);
+						return { data: `log of job ${params.job_id}` };
+					},
+				},
+				repos: {
+					getCombinedStatusForRef: async () => ({ data: { statuses } }),
+				},
+			},
+		},
+	});
+	return { client, downloads };
+};
+
+describe("getCheckStatus", () => {
+	it("collects failing check runs and statuses with their logs", async () => {
+		const { client, downloads } = withChecks(
+			[
+				{
+					id: 1,
+					name: "test",
+					status: "completed",
+					conclusion: "failure",
+					details_url: "https://github.com/acme/app/actions/runs/1",
+					output: { title: "1 failing", summary: "parser.test.ts" },
+					app: { slug: "github-actions" },
+				},
+				{ id: 2, name: "lint", status: "completed", conclusion: "success" },
+				{ id: 3, name: "e2e", status: "completed", conclusion: "timed_out" },
+				{ id: 4, name: "docs", status: "completed", conclusion: "skipped" },
+				{ id: 5, name: "build", status: "in_progress", conclusion: null },
+			],
+			[
+				{
+					context: "ci/circleci",
+					state: "error",
+					description: "Build errored",
+					target_url: "https://circleci.com/1",
+				},
+				{ context: "coverage", state: "success" },
+				{ context: "deploy/preview", state: "pending" },
+			],
+		);
+
+		const { failing, pending } = await client.getCheckStatus(
+			"acme",
+			"app",
+			"abc123",
+		);
+
+		expect(failing).toEqual([
+			{
+				name: "test",
+				conclusion: "failure",
+				detailsUrl: "https://github.com/acme/app/actions/runs/1",
+				summary: "1 failing\nparser.test.ts",
+				log: "log of job 1",
+			},
+			{
+				name: "e2e",
+				conclusion: "timed_out",
+				detailsUrl: undefined,
+				summary: undefined,
+			},
+			{
+				name: "ci/circleci",
+				conclusion: "error",
+				detailsUrl: "https://circleci.com/1",
+				summary: "Build errored",
+			},
+		]);
+		expect(pending).toEqual(["build", "deploy/preview"]);
+		expect(downloads).toEqual([1]);
+	});
+
+	it("keeps a failing check when its log can't be downloaded", async () => {
+		const { client } = withChecks([
+			{
+				id: 1,
+				name: "test",
+				status: "completed",
+				conclusion: "failure",
+				app: { slug: "github-actions" },
+			},
+		]);
+		Object.assign(
+			(client as unknown as { octokit: { rest: { actions: object } } }).octokit
+				.rest.actions,
+			{
+				downloadJobLogsForWorkflowRun: async () => {
+					throw new Error("Not Found");
+				},
+			},
+		);
+
+		const { failing } = await client.getCheckStatus("acme", "app", "abc123");
+
+		expect(failing).toEqual([
+			{
+				name: "test",
+				conclusion: "failure",
+				detailsUrl: undefined,
+				summary: undefined,
+			},
+		]);
+	});
+});
@@ -10,13 +10,84 @@ export interface CreateIssueOptions {
 	body: string;
 	assignees?: string[];
 	labels?: string[];
+	milestone?: number;
 }
 
 export interface Issue {
+	/** Database id, which the sub-issues API takes instead of the number */
+	id: number;
 	number: number;
 	title: string;
 	body: string;
 	html_url: string;
+	labels: string[];
+}
+
+export interface PullRequest {
+	number: number;
+	title: string;
+	body: string;
+	html_url: string;
+	state: string;
+	headRef: string;
+	baseRef: string;
+	headSha: string;
+	/** False when the head branch lives in a fork */
+	sameRepository: boolean;
+}
+
+export interface ReviewComment {
+	/** Database id of the first comment in the thread, used for replies */
+	id: number;
+	author: string;
+	path: string;
+	line: number | null;
+	/** Every comment in the thread, oldest first */
+	body: string;
+}
+
+export interface ReviewFeedback {
+	/** Unresolved review threads */
+	comments: ReviewComment[];
+	/** Bodies of reviews that requested changes */
+	requestedChanges: { author: string; body: string }[];
+}
+
+export interface NewReview {
+	event: "APPROVE" | "REQUEST_CHANGES" | "COMMENT";
+	body: string;
+	/** Head commit the review applies to; its line numbers refer to it */
+	commitId: string;
+	/** Inline comments on lines of the new version of each file */
+	comments: { path: string; line: number; body: string }[];
+}
+
+export interface FailingCheck {
+	name: string;
+	conclusion: string;
+	detailsUrl?: string;
+	/** Check run output title and summary, when the check provides one */
+	summary?: string;
+	/** Full job log, for GitHub Actions checks */
+	log?: string;
+}
+
+export interface CheckStatus {
+	failing: FailingCheck[];
+	/** Names of checks that haven't completed yet */
+	pending: string[];
+}
+
+export interface ProjectIssue {
+	itemId: string;
+	number: number;
+	title: string;
+}
+
+function labelNames(labels: (string | { name?: string })[]): string[] {
+	return labels
+		.map((label) => (typeof label === "string" ? label : label.name))
+		.filter((name): name is string => Boolean(name));
 }
 
 export class GitHubClient {
@@ -44,15 +115,18 @@ export class GitHubClient {
 				body: options.body,
 				assignees: options.assignees,
 				labels: options.labels,
+				milestone: options.milestone,
 			});
 
 			logger.debug(`Created issue #${issue.number}: ${issue.title}`);
 
 			return {
+				id: issue.id,
 				number: issue.number,
 				title: issue.title,
 				body: issue.body || "",
 				html_url: issue.html_url,
+				labels: labelNames(issue.labels),
 			};
 		} catch (error: any) {
 			logger.error("Failed to create issue:", error.message);
@@ -76,16 +150,637 @@ export class GitHubClient {
 			});
 
 			return {
+				id: issue.id,
 				number: issue.number,
 				title: issue.title,
 				body: issue.body || "",
 				html_url: issue.html_url,
+				labels: labelNames(issue.labels),
 			};
 		} catch (error: any) {
 			throw new Error(`Failed to get issue #${issueNumber}: ${error.message}`);
 		}
 	}
 
+	/**
+	 * Replace the body of an issue
+	 */
+	async updateIssueBody(
+		owner: string,
+		repo: string,
+		issueNumber: number,
+		body: string,
+	): Promise<void> {
+		try {
+			await this.octokit.rest.issues.update({
+				owner,
+				repo,
+				issue_number: issueNumber,
+				body,
+			});
+		} catch (error: any) {
+			throw new Error(
+				`Failed to update issue #${issueNumber}: ${error.message}`,
+			);
+		}
+	}
+
+	/**
+	 * Attach an issue as a sub-issue of another. Not every repository has
+	 * sub-issues, so failures only warn.
+	 */
+	async addSubIssue(
+		owner: string,
+		repo: string,
+		parentNumber: number,
+		subIssueId: number,
+	): Promise<boolean> {
+		try {
+			await this.octokit.request(
+				"POST /repos/{owner}/{repo}/issues/{issue_number}/sub_issues",
+				{
+					owner,
+					repo,
+					issue_number: parentNumber,
+					sub_issue_id: subIssueId,
+				},
+			);
+			return true;
+		} catch (error: any) {
+			logger.warning(
+				`Failed to add sub-issue to #${parentNumber}: ${error.message}`,
+			);
+			return false;
+		}
+	}
+
+	/**
+	 * List open issues carrying all of the given labels
+	 */
+	async listIssuesByLabel(
+		owner: string,
+		repo: string,
+		labels: string[],
+	): Promise<Issue[]> {
+		try {
+			const issues = await this.octokit.paginate(
+				this.octokit.rest.issues.listForRepo,
+				{
+					owner,
+					repo,
+					state: "open",
+					labels: labels.join(","),
+					per_page: 100,
+				},
+			);
+
+			// The issues endpoint also returns pull requests
+			return issues
+				.filter((issue) => !issue.pull_request)
+				.map((issue) => ({
+					id: issue.id,
+					number: issue.number,
+					title: issue.title,
+					body: issue.body || "",
+					html_url: issue.html_url,
+					labels: labelNames(issue.labels),
+				}));
+		} catch (error: any) {
+			throw new Error(
+				`Failed to list issues labeled ${labels.join(", ")}: ${error.message}`,
+			);
+		}
+	}
+
+	/**
+	 * List open issues that have no labels yet
+	 */
+	async listUnlabeledIssues(owner: string, repo: string): Promise<Issue[]> {
+		try {
+			const issues = await this.octokit.paginate(
+				this.octokit.rest.issues.listForRepo,
+				{
+					owner,
+					repo,
+					state: "open",
+					per_page: 100,
+				},
+			);
+
+			return issues
+				.filter((issue) => !issue.pull_request && issue.labels.length === 0)
+				.map((issue) => ({
+					id: issue.id,
+					number: issue.number,
+					title: issue.title,
+					body: issue.body || "",
+					html_url: issue.html_url,
+					labels: [],
+				}));
+		} catch (error: any) {
+			throw new Error(`Failed to list unlabeled issues: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Resolve an open milestone by number or title
+	 */
+	async findMilestone(
+		owner: string,
+		repo: string,
+		ref: string,
+	): Promise<number> {
+		if (/^\d+$/.test(ref)) {
+			return parseInt(ref, 10);
+		}
+
+		let milestones: { number: number; title: string }[];
+		try {
+			milestones = await this.octokit.paginate(
+				this.octokit.rest.issues.listMilestones,
+				{ owner, repo, state: "open", per_page: 100 },
+			);
+		} catch (error: any) {
+			throw new Error(`Failed to list milestones: ${error.message}`);
+		}
+
+		const milestone = milestones.find(
+			(candidate) => candidate.title.toLowerCase() === ref.toLowerCase(),
+		);
+		if (!milestone) {
+			throw new Error(`No open milestone named "${ref}"`);
+		}
+		return milestone.number;
+	}
+
+	/**
+	 * Names of the labels defined in a repository
+	 */
+	async listLabels(owner: string, repo: string): Promise<string[]> {
+		try {
+			const labels = await this.octokit.paginate(
+				this.octokit.rest.issues.listLabelsForRepo,
+				{ owner, repo, per_page: 100 },
+			);
+			return labels.map((label) => label.name);
+		} catch (error: any) {
+			throw new Error(`Failed to list labels: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Add labels to an issue, creating any that don't exist yet
+	 */
+	async addLabels(
+		owner: string,
+		repo: string,
+		issueNumber: number,
+		labels: string[],
+	): Promise<void> {
+		try {
+			await this.octokit.rest.issues.addLabels({
+				owner,
+				repo,
+				issue_number: issueNumber,
+				labels,
+			});
+		} catch (error: any) {
+			throw new Error(`Failed to label #${issueNumber}: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Get a pull request with its head and base branches
+	 */
+	async getPullRequest(
+		owner: string,
+		repo: string,
+		pullNumber: number,
+	): Promise<PullRequest> {
+		try {
+			const { data: pr } = await this.octokit.rest.pulls.get({
+				owner,
+				repo,
+				pull_number: pullNumber,
+			});
+
+			return {
+				number: pr.number,
+				title: pr.title,
+				body: pr.body || "",
+				html_url: pr.html_url,
+				state: pr.state,
+				headRef: pr.head.ref,
+				baseRef: pr.base.ref,
+				headSha: pr.head.sha,
+				sameRepository: pr.head.repo?.full_name === pr.base.repo.full_name,
+			};
+		} catch (error: any) {
+			throw new Error(
+				`Failed to get pull request #${pullNumber}: ${error.message}`,
+			);
+		}
+	}
+
+	/**
+	 * Collect the unresolved review threads and change requests on a pull
+	 * request
+	 */
+	async getReviewFeedback(
+		owner: string,
+		repo: string,
+		pullNumber: number,
+	): Promise<ReviewFeedback> {
+		try {
+			const response: any = await this.graphqlWithAuth(
+				`
+        query($owner: String!, $repo: String!, $pullNumber: Int!) {
+          repository(owner: $owner, name: $repo) {
+            pullRequest(number: $pullNumber) {
+              reviewThreads(first: 100) {
+                nodes {
+                  isResolved
+                  path
+                  line
+                  comments(first: 50) {
+                    nodes {
+                      databaseId
+                      body
+                      author {
+                        login
+                      }
+                    }
+                  }
+                }
+              }
+              reviews(last: 50, states: CHANGES_REQUESTED) {
+                nodes {
+                  body
+                  author {
+                    login
+                  }
+                }
+              }
+            }
+          }
+        }
+      `,
+				{ owner, repo, pullNumber },
+			);
+
+			const pr = response.repository?.pullRequest;
+			if (!pr) {
+				throw new Error("pull request not found");
+			}
+
+			const comments: ReviewComment[] = pr.reviewThreads.nodes
+				.filter((thread: any) => !thread.isResolved)
+				.filter((thread: any) => thread.comments.nodes.length > 0)
+				.map((thread: any) => {
+					const [first] = thread.comments.nodes;
+					return {
+						id: first.databaseId,
+						author: first.author?.login ?? "ghost",
+						path: thread.path,
+						line: thread.line ?? null,
+						body: thread.comments.nodes
+							.map(
+								(comment: any) =>
+									`@${comment.author?.login ?? "ghost"}: ${comment.body}`,
+							)
+							.join("\n\n"),
+					};
+				});
+
+			const requestedChanges = pr.reviews.nodes
+				.filter((review: any) => review.body?.trim())
+				.map((review: any) => ({
+					author: review.author?.login ?? "ghost",
+					body: review.body.trim(),
+				}));
+
+			return { comments, requestedChanges };
+		} catch (error: any) {
+			throw new Error(
+				`Failed to get review feedback for #${pullNumber}: ${error.message}`,
+			);
+		}
+	}
+
+	/**
+	 * Collect the failed check runs and commit statuses of a commit, with the
+	 * job log of each failed GitHub Actions job
+	 */
+	async getCheckStatus(
+		owner: string,
+		repo: string,
+		ref: string,
+	): Promise<CheckStatus> {
+		const failing: FailingCheck[] = [];
+		const pending: string[] = [];
+
+		try {
+			const checkRuns = await this.octokit.paginate(
+				this.octokit.rest.checks.listForRef,
+				{ owner, repo, ref, filter: "latest", per_page: 100 },
+			);
+
+			for (const run of checkRuns) {
+				if (run.status !== "completed") {
+					pending.push(run.name);
+					continue;
+				}
+				if (
+					!["failure", "timed_out", "action_required"].includes(
+						run.conclusion ?? "",
+					)
+				) {
+					continue;
+				}
+
+				const check: FailingCheck = {
+					name: run.name,
+					conclusion: run.conclusion ?? "failure",
+					detailsUrl: run.details_url ?? undefined,
+					summary:
+						[run.output?.title, run.output?.summary]
+							.filter(Boolean)
+							.join("\n") || undefined,
+				};
+
+				// Actions check runs share their id with the job
+				if (run.app?.slug === "github-actions") {
+					try {
+						const { data } =
+							await this.octokit.rest.actions.downloadJobLogsForWorkflowRun({
+								owner,
+								repo,
+								job_id: run.id,
+							});
+						check.log = String(data);
+					} catch (error: any) {
+						logger.debug(
+							`Failed to download log for ${run.name}: ${error.message}`,
+						);
+					}
+				}
+
+				failing.push(check);
+			}
+
+			const { data: combined } =
+				await this.octokit.rest.repos.getCombinedStatusForRef({
+					owner,
+					repo,
+					ref,
+				});
+			for (const status of combined.statuses) {
+				if (status.state === "pending") {
+					pending.push(status.context);
+				} else if (status.state === "failure" || status.state === "error") {
+					failing.push({
+						name: status.context,
+						conclusion: status.state,
+						detailsUrl: status.target_url ?? undefined,
+						summary: status.description ?? undefined,
+					});
+				}
+			}
+
+			return { failing, pending };
+		} catch (error: any) {
+			throw new Error(`Failed to get checks for ${ref}: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Reply in the thread of a pull request review comment
+	 */
+	async replyToReviewComment(
+		owner: string,
+		repo: string,
+		pullNumber: number,
+		commentId: number,
+		body: string,
+	): Promise<void> {
+		try {
+			await this.octokit.rest.pulls.createReplyForReviewComment({
+				owner,
+				repo,
+				pull_number: pullNumber,
+				comment_id: commentId,
+				body,
+			});
+		} catch (error: any) {
+			throw new Error(
+				`Failed to reply to review comment ${commentId}: ${error.message}`,
+			);
+		}
+	}
+
+	/**
+	 * Submit a review on a pull request, with its inline comments
+	 */
+	async createReview(
+		owner: string,
+		repo: string,
+		pullNumber: number,
+		review: NewReview,
+	): Promise<{ id: number; html_url: string }> {
+		try {
+			const { data } = await this.octokit.rest.pulls.createReview({
+				owner,
+				repo,
+				pull_number: pullNumber,
+				commit_id: review.commitId,
+				event: review.event,
+				body: review.body,
+				comments: review.comments.map((comment) => ({
+					path: comment.path,
+					line: comment.line,
+					side: "RIGHT",
+					body: comment.body,
+				})),
+			});
+
+			return { id: data.id, html_url: data.html_url };
+		} catch (error: any) {
+			throw new Error(
+				`Failed to review pull request #${pullNumber}: ${error.message}`,
+			);
+		}
+	}
+
+	/**
+	 * Comment on an issue or pull request
+	 */
+	async createComment(
+		owner: string,
+		repo: string,
+		issueNumber: number,
+		body: string,
+	): Promise<{ id: number; html_url: string }> {
+		try {
+			const { data: comment } = await this.octokit.rest.issues.createComment({
+				owner,
+				repo,
+				issue_number: issueNumber,
+				body,
+			});
+
+			return { id: comment.id, html_url: comment.html_url };
+		} catch (error: any) {
+			throw new Error(`Failed to comment on #${issueNumber}: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Replace the body of an existing issue or pull request comment
+	 */
+	async updateComment(
+		owner: string,
+		repo: string,
+		commentId: number,
+		body: string,
+	): Promise<void> {
+		try {
+			await this.octokit.rest.issues.updateComment({
+				owner,
+				repo,
+				comment_id: commentId,
+				body,
+			});
+		} catch (error: any) {
+			throw new Error(
+				`Failed to update comment ${commentId}: ${error.message}`,
+			);
+		}
+	}
+
+	/**
+	 * Remove a label from an issue, ignoring labels that are already gone
+	 */
+	async removeLabel(
+		owner: string,
+		repo: string,
+		issueNumber: number,
+		label: string,
+	): Promise<void> {
+		try {
+			await this.octokit.rest.issues.removeLabel({
+				owner,
+				repo,
+				issue_number: issueNumber,
+				name: label,
+			});
+		} catch (error: any) {
+			if (error.status === 404) {
+				return;
+			}
+			throw new Error(
+				`Failed to remove label "${label}" from #${issueNumber}: ${error.message}`,
+			);
+		}
+	}
+
+	/**
+	 * List open issues of a repository whose project status is the given option
+	 */
+	async getProjectIssuesByStatus(
+		projectId: string,
+		statusFieldId: string,
+		statusOptionId: string,
+		owner: string,
+		repo: string,
+	): Promise<ProjectIssue[]> {
+		const matches: ProjectIssue[] = [];
+		let cursor: string | null = null;
+
+		try {
+			do {
+				const response: any = await this.graphqlWithAuth(
+					`
+        query($projectId: ID!, $cursor: String) {
+          node(id: $projectId) {
+            ... on ProjectV2 {
+              items(first: 100, after: $cursor) {
+                pageInfo {
+                  hasNextPage
+                  endCursor
+                }
+                nodes {
+                  id
+                  fieldValues(first: 20) {
+                    nodes {
+                      ... on ProjectV2ItemFieldSingleSelectValue {
+                        optionId
+                        field {
+                          ... on ProjectV2SingleSelectField {
+                            id
+                          }
+                        }
+                      }
+                    }
+                  }
+                  content {
+                    ... on Issue {
+                      number
+                      title
+                      state
+                      repository {
+                        name
+                        owner {
+                          login
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      `,
+					{ projectId, cursor },
+				);
+
+				const items = response.node?.items;
+				if (!items) {
+					break;
+				}
+
+				for (const item of items.nodes) {
+					const issue = item.content;
+					if (
+						!issue?.number ||
+						issue.state !== "OPEN" ||
+						issue.repository.owner.login !== owner ||
+						issue.repository.name !== repo
+					) {
+						continue;
+					}
+
+					const status = item.fieldValues.nodes.find(
+						(value: any) => value?.field?.id === statusFieldId,
+					);
+					if (status?.optionId === statusOptionId) {
+						matches.push({
+							itemId: item.id,
+							number: issue.number,
+							title: issue.title,
+						});
+					}
+				}
+
+				cursor = items.pageInfo.hasNextPage ? items.pageInfo.endCursor : null;
+			} while (cursor);
+
+			return matches;
+		} catch (error: any) {
+			throw new Error(`Failed to query project items: ${error.message}`);
+		}
+	}
+
 	/**
 	 * Add issue to GitHub project
 	 */
@@ -123,6 +818,42 @@ export class GitHubClient {
 		}
 	}
 
+	/**
+	 * Add pull request to GitHub project
+	 */
+	async addPullRequestToProject(
+		pullNumber: number,
+		projectId: string,
+		owner: string,
+		repo: string,
+	): Promise<void> {
+		try {
+			const { data: pr } = await this.octokit.rest.pulls.get({
+				owner,
+				repo,
+				pull_number: pullNumber,
+			});
+
+			await this.graphqlWithAuth(
+				`
+        mutation($projectId: ID!, $contentId: ID!) {
+          addProjectV2ItemById(input: { projectId: $projectId, contentId: $contentId }) {
+            item {
+              id
+            }
+          }
+        }
+      `,
+				{ projectId, contentId: pr.node_id },
+			);
+
+			logger.debug(`Added PR #${pullNumber} to project ${projectId}`);
+		} catch (error: any) {
+			logger.warning(`Failed to add PR to project: ${error.message}`);
+			// Don't throw - project management is optional
+		}
+	}
+
 	/**
 	 * Update project item status
 	 */
@@ -191,7 +922,8 @@ export class GitHubClient {
 	}
 
 	/**
-	 * Create pull request
+	 * Create pull request. Assignees, reviewers and labels are best-effort so a
+	 * rejected reviewer never loses the PR that was just opened.
 	 */
 	async createPullRequest(options: {
 		owner: string;
@@ -200,59 +932,77 @@ export class GitHubClient {
 		body: string;
 		head: string;
 		base: string;
+		draft?: boolean;
 		assignees?: string[];
 		reviewers?: string[];
 		labels?: string[];
 	}): Promise<{ number: number; html_url: string }> {
+		let pr: { number: number; html_url: string; title: string };
 		try {
-			const { data: pr } = await this.octokit.rest.pulls.create({
+			const { data } = await this.octokit.rest.pulls.create({
 				owner: options.owner,
 				repo: options.repo,
 				title: options.title,
 				body: options.body,
 				head: options.head,
 				base: options.base,
+				draft: options.draft,
 			});
+			pr = data;
+		} catch (error: any) {
+			throw new Error(`Failed to create pull request: ${error.message}`);
+		}
 
-			// Add assignees if specified
-			if (options.assignees && options.assignees.length > 0) {
+		// Add assignees if specified
+		if (options.assignees && options.assignees.length > 0) {
+			try {
 				await this.octokit.rest.issues.addAssignees({
 					owner: options.owner,
 					repo: options.repo,
 					issue_number: pr.number,
 					assignees: options.assignees,
 				});
+			} catch (error: any) {
+				logger.warning(`Failed to assign PR #${pr.number}: ${error.message}`);
 			}
+		}
 
-			// Add reviewers if specified
-			if (options.reviewers && options.reviewers.length > 0) {
+		// Add reviewers if specified
+		if (options.reviewers && options.reviewers.length > 0) {
+			try {
 				await this.octokit.rest.pulls.requestReviewers({
 					owner: options.owner,
 					repo: options.repo,
 					pull_number: pr.number,
 					reviewers: options.reviewers,
 				});
+			} catch (error: any) {
+				logger.warning(
+					`Failed to request reviewers on PR #${pr.number}: ${error.message}`,
+				);
 			}
+		}
 
-			// Add labels if specified
-			if (options.labels && options.labels.length > 0) {
+		// Add labels if specified
+		if (options.labels && options.labels.length > 0) {
+			try {
 				await this.octokit.rest.issues.addLabels({
 					owner: options.owner,
 					repo: options.repo,
 					issue_number: pr.number,
 					labels: options.labels,
 				});
+			} catch (error: any) {
+				logger.warning(`Failed to label PR #${pr.number}: ${error.message}`);
 			}
+		}
 
-			logger.debug(`Created PR #${pr.number}: ${pr.title}`);
+		logger.debug(`Created PR #${pr.number}: ${pr.title}`);
 
-			return {
-				number: pr.number,
-				html_url: pr.html_url,
-			};
-		} catch (error: any) {
-			throw new Error(`Failed to create pull request: ${error.message}`);
-		}
+		return {
+			number: pr.number,
+			html_url: pr.html_url,
+		};
 	}
 
 	/**
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { draftIssue, inferIssueType, truncateTitle } from "./issue-draft.js";
+
+describe("draftIssue", () => {
+	it("uses the first sentence as the title and the rest as description", () => {
+		expect(
+			draftIssue(
+				"Add user authentication. Include login/logout and session management.",
+			),
+		).toEqual({
+			title: "Add user authentication",
+			type: "feat",
+			description: "Include login/logout and session management.",
+		});
+	});
+
+	it("doesn't split on dots inside file names", () => {
+		const draft = draftIssue("Please update package.json scripts for CI");
+
+		expect(draft.title).toBe("Update package.json scripts for CI");
+		expect(draft.description).toBe("Please update package.json scripts for CI");
+	});
+
+	it("prefers an explicit title", () => {
+		const draft = draftIssue(
+			"The login page crashes on submit.",
+			"Login crash",
+		);
+
+		expect(draft.title).toBe("Login crash");
+		expect(draft.type).toBe("fix");
+		expect(draft.description).toBe("The login page crashes on submit.");
+	});
+});
+
+describe("inferIssueType", () => {
+	it("recognises fixes, docs and chores", () => {
+		expect(inferIssueType("Fix the broken logout button")).toBe("fix");
+		expect(inferIssueType("Update README with install steps")).toBe("docs");
+		expect(inferIssueType("Refactor the config loader")).toBe("chore");
+		expect(inferIssueType("Add dark mode toggle")).toBe("feat");
+	});
+});
+
+describe("truncateTitle", () => {
+	it("cuts long titles at a word boundary", () => {
+		expect(
+			truncateTitle("Add a settings page for notification preferences", 30),
+		).toBe("Add a settings page for…");
+	});
+});
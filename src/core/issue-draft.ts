@@ -0,0 +1,98 @@
+/**
+ * Turning a `--prompt` into the title, type and description of a new issue
+ */
+
+export const ISSUE_TYPES = ["feat", "fix", "chore", "docs"] as const;
+
+export type IssueType = (typeof ISSUE_TYPES)[number];
+
+export interface IssueDraft {
+	title: string;
+	type: IssueType;
+	/** The prompt without the sentence used as the title */
+	description: string;
+}
+
+/** Longest title before it's cut at a word boundary */
+export const MAX_ISSUE_TITLE_LENGTH = 72;
+
+/** Used for `{{acceptanceCriteria}}` when the agent didn't draft any */
+export const DEFAULT_ACCEPTANCE_CRITERIA = [
+	"Solution meets the described requirements",
+	"Code follows project conventions",
+	"All quality checks pass (typecheck, lint, build)",
+	"Changes are properly tested",
+];
+
+// First match wins, so bug reports that mention docs are still fixes
+const TYPE_PATTERNS: [IssueType, RegExp][] = [
+	[
+		"fix",
+		/\b(fix(es|ed)?|bugs?|broken|crash(es|ing)?|errors?|fail(s|ing|ure)?|regression|wrong|incorrect)\b|doesn't work|not working/i,
+	],
+	["docs", /\b(docs?|documentation|readme|changelog|typos?)\b/i],
+	[
+		"chore",
+		/\b(refactor(ing)?|clean ?up|tidy|bump|upgrade|dependenc(y|ies)|rename|lint(ing)?|format(ting)?|ci|chore)\b/i,
+	],
+];
+
+const FILLER_PREFIX =
+	/^(we need to|we should|i want to|i'd like to|let's|please|can you|could you)\s+/i;
+
+/**
+ * Guess the conventional commit type of a change from its description
+ */
+export function inferIssueType(prompt: string): IssueType {
+	for (const [type, pattern] of TYPE_PATTERNS) {
+		if (pattern.test(prompt)) {
+			return type;
+		}
+	}
+	return "feat";
+}
+
+/**
+ * Shorten a title to at most `maxLength` characters without cutting a word
+ */
+export function truncateTitle(
+	title: string,
+	maxLength = MAX_ISSUE_TITLE_LENGTH,
+): string {
+	if (title.length <= maxLength) {
+		return title;
+	}
+
+	const cut = title.slice(0, maxLength - 1);
+	const lastSpace = cut.lastIndexOf(" ");
+	return `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).replace(/[\s,;:-]+$/, "")}…`;
+}
+
+/**
+ * Split a prompt into an issue title (its first sentence, or `title` when
+ * given) and a description
+ */
+export function draftIssue(prompt: string, title?: string): IssueDraft {
+	const text = prompt.trim();
+	const type = inferIssueType(text);
+
+	if (title?.trim()) {
+		return { title: title.trim(), type, description: text };
+	}
+
+	// A sentence ends at punctuation followed by whitespace, so file names
+	// and versions like package.json or v1.2 stay in one piece
+	const firstLine = text.split("\n")[0];
+	const sentence = firstLine.match(/^(.+?)[.!?](\s|$)/)?.[1] ?? firstLine;
+	const rest = text.slice(text.indexOf(sentence) + sentence.length);
+
+	const cleaned = sentence.trim().replace(FILLER_PREFIX, "");
+	const fullTitle = cleaned.charAt(0).toUpperCase() + cleaned.slice(1);
+	const draftTitle = truncateTitle(fullTitle);
+
+	// A shortened title loses words, so keep the whole prompt in that case
+	const description =
+		draftTitle === fullTitle ? rest.replace(/^[.!?]/, "").trim() : "";
+
+	return { title: draftTitle, type, description: description || text };
+}
@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import type { GitHubClient } from "./github-client.js";
+import { formatFailureDetails, IssueReporter } from "./issue-reporter.js";
+import type { WorkflowResults } from "./workflow-executor.js";
+
+interface FakeGitHub {
+	calls: unknown[][];
+	createComment(...args: unknown[]): Promise<{ id: number; html_url: string }>;
+	updateComment(...args: unknown[]): Promise<void>;
+}
+
+const fakeGitHub = (overrides: Partial<FakeGitHub> = {}): FakeGitHub => {
+	const github: FakeGitHub = {
+		calls: [],
+		createComment: async (...args) => {
+			github.calls.push(["createComment", ...args]);
+			return { id: 7, html_url: "https://github.com/acme/app/issues/1#c7" };
+		},
+		updateComment: async (...args) => {
+			github.calls.push(["updateComment", ...args]);
+		},
+		...overrides,
+	};
+	return github;
+};
+
+const reporterFor = (github: FakeGitHub) =>
+	new IssueReporter(github as unknown as GitHubClient, "acme", "app", 1);
+
+const results = (
+	overrides: Partial<WorkflowResults> = {},
+): WorkflowResults => ({
+	runId: "20250101-120000-ab12",
+	startTime: new Date(),
+	success: false,
+	...overrides,
+});
+
+describe("IssueReporter", () => {
+	it("posts one comment and keeps editing it", async () => {
+		const github = fakeGitHub();
+		const reporter = reporterFor(github);
+
+		await reporter.start({ runId: "20250101-120000-ab12", baseBranch: "main" });
+		await reporter.step("agent");
+		await reporter.finish(
+			results({
+				success: true,
+				prNumber: 12,
+				prUrl: "https://github.com/acme/app/pull/12",
+			}),
+		);
+
+		expect(reporter.isStarted).toBe(true);
+		expect(github.calls.map(([name]) => name)).toEqual([
+			"createComment",
+			"updateComment",
+			"updateComment",
+		]);
+		expect(github.calls[0].slice(1, 4)).toEqual(["acme", "app", 1]);
+		expect(github.calls[2].slice(1, 4)).toEqual(["acme", "app", 7]);
+		expect(github.calls[2][4]).toContain("### ✅ Constech Worker finished");
+		expect(github.calls[2][4]).toContain(
+			"Pull request: #12 https://github.com/acme/app/pull/12",
+		);
+	});
+
+	it("applies edits one at a time, in order", async () => {
+		const events: string[] = [];
+		let releaseFirst = () => {};
+		const github = fakeGitHub({
+			updateComment: async (...args) => {
+				const body = String(args[3]);
+				const step = body.includes("⏳ Agent running") ? "agent" : "checks";
+				events.push(`start ${step}`);
+				if (step === "agent") {
+					await new Promise<void>((resolve) => {
+						releaseFirst = resolve;
+					});
+				}
+				events.push(`end ${step}`);
+			},
+		});
+		const reporter = reporterFor(github);
+		await reporter.start({ baseBranch: "main" });
+
+		await reporter.step("agent");
+		await reporter.step("qualityChecks");
+		await new Promise((resolve) => setImmediate(resolve));
+		expect(events).toEqual(["start agent"]);
+
+		releaseFirst();
+		await reporter.finish(results({ success: true }));
+		expect(events.slice(0, 4)).toEqual([
+			"start agent",
+			"end agent",
+			"start checks",
+			"end checks",
+		]);
+	});
+
+	it("never fails the run when GitHub does", async () => {
+		const github = fakeGitHub({
+			updateComment: async () => {
+				throw new Error("API rate limit exceeded");
+			},
+		});
+		const reporter = reporterFor(github);
+
+		await reporter.start({ baseBranch: "main" });
+		await reporter.step("agent");
+		await expect(
+			reporter.finish(results({ error: "boom" })),
+		).resolves.toBeUndefined();
+	});
+
+	it("stays silent when the first comment can't be posted", async () => {
+		const github = fakeGitHub({
+			createComment: async () => {
+				throw new Error("Resource not accessible by integration");
+			},
+		});
+		const reporter = reporterFor(github);
+
+		await expect(
+			reporter.start({ baseBranch: "main" }),
+		).resolves.toBeUndefined();
+		await reporter.finish(results({ error: "boom" }));
+
+		expect(reporter.isStarted).toBe(false);
+		expect(github.calls).toEqual([]);
+	});
+});
+
+describe("formatFailureDetails", () => {
+	it("lists failed checks without their output", () => {
+		const lines = formatFailureDetails(
+			results({
+				error: "Quality checks failed: npm test",
+				qualityChecks: {
+					"npm run lint": {
+						passed: true,
+						exitCode: 0,
+						durationMs: 900,
+						verified: true,
+					},
+					"npm test": {
+						passed: false,
+						exitCode: 1,
+						durationMs: 4200,
+						outputTail: "GITHUB_TOKEN=ghs_secret",
+						verified: true,
+					},
+				},
+			}),
+			"Moved back to Ready",
+		);
+
+		expect(lines).toEqual([
+			"**Error:** Quality checks failed: npm test",
+			"Inspect with `constech-worker runs show 20250101-120000-ab12`",
+			"",
+			"**Failed quality checks:**",
+			"- `npm test` exited with 1",
+			"",
+			"Moved back to Ready",
+		]);
+	});
+});
@@ -0,0 +1,218 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: will fix later */
+import { logger } from "../utils/logger.js";
+import type { GitHubClient } from "./github-client.js";
+import type { WorkflowResults } from "./workflow-executor.js";
+
+export type ReportStep =
+	| "container"
+	| "agent"
+	| "qualityChecks"
+	| "pullRequest";
+
+type StepState = "pending" | "running" | "done" | "failed";
+
+const STEP_LABELS: Record<ReportStep, string> = {
+	container: "Container ready",
+	agent: "Agent running",
+	qualityChecks: "Quality checks",
+	pullRequest: "Pull request",
+};
+
+const STEP_ICONS: Record<StepState, string> = {
+	pending: "⬜",
+	running: "⏳",
+	done: "✅",
+	failed: "❌",
+};
+
+export interface ReportDetails {
+	runId?: string;
+	containerName?: string;
+	baseBranch: string;
+}
+
+/**
+ * Keeps a single progress comment on the issue a worker is running for,
+ * editing it in place as the run moves through its phases
+ */
+export class IssueReporter {
+	private github: GitHubClient;
+	private owner: string;
+	private repo: string;
+	private issueNumber: number;
+	private details?: ReportDetails;
+	private commentId?: number;
+	private steps: Record<ReportStep, StepState> = {
+		container: "pending",
+		agent: "pending",
+		qualityChecks: "pending",
+		pullRequest: "pending",
+	};
+	// Updates are chained so edits land on GitHub in order
+	private updates: Promise<void> = Promise.resolve();
+
+	constructor(
+		github: GitHubClient,
+		owner: string,
+		repo: string,
+		issueNumber: number,
+	) {
+		this.github = github;
+		this.owner = owner;
+		this.repo = repo;
+		this.issueNumber = issueNumber;
+	}
+
+	/**
+	 * Whether the progress comment was posted, so the run's outcome can go there
+	 */
+	get isStarted(): boolean {
+		return this.commentId !== undefined;
+	}
+
+	/**
+	 * Post the "worker started" comment once the container is ready
+	 */
+	async start(details: ReportDetails): Promise<void> {
+		this.details = details;
+		this.steps.container = "done";
+
+		await this.enqueue(async () => {
+			const comment = await this.github.createComment(
+				this.owner,
+				this.repo,
+				this.issueNumber,
+				this.render("### 🤖 Constech Worker is working on this issue"),
+			);
+			this.commentId = comment.id;
+		});
+	}
+
+	/**
+	 * Mark the running step done and start the next one
+	 */
+	async step(step: ReportStep): Promise<void> {
+		this.completeRunningStep("done");
+		this.steps[step] = "running";
+		await this.publish(
+			this.render("### 🤖 Constech Worker is working on this issue"),
+		);
+	}
+
+	/**
+	 * Replace the progress with the final outcome of the run
+	 */
+	async finish(results: WorkflowResults, failureNote?: string): Promise<void> {
+		if (results.success) {
+			this.completeRunningStep("done");
+			const lines = [
+				this.render("### ✅ Constech Worker finished"),
+				...(results.prUrl
+					? ["", `Pull request: #${results.prNumber} ${results.prUrl}`]
+					: []),
+				...(results.summary ? ["", `**Summary:** ${results.summary}`] : []),
+			];
+			await this.publish(lines.join("\n"), true);
+			return;
+		}
+
+		this.completeRunningStep("failed");
+		await this.publish(
+			[
+				this.render("### ❌ Constech Worker run failed"),
+				"",
+				...formatFailureDetails(results, failureNote),
+			].join("\n"),
+			true,
+		);
+	}
+
+	private completeRunningStep(state: StepState): void {
+		for (const step of Object.keys(this.steps) as ReportStep[]) {
+			if (this.steps[step] === "running") {
+				this.steps[step] = state;
+			}
+		}
+	}
+
+	private render(heading: string): string {
+		const lines = [heading, ""];
+
+		if (this.details) {
+			if (this.details.runId) {
+				lines.push(`**Run:** \`${this.details.runId}\``);
+			}
+			if (this.details.containerName) {
+				lines.push(`**Container:** \`${this.details.containerName}\``);
+			}
+			lines.push(`**Base branch:** \`${this.details.baseBranch}\``, "");
+		}
+
+		for (const step of Object.keys(this.steps) as ReportStep[]) {
+			lines.push(`- ${STEP_ICONS[this.steps[step]]} ${STEP_LABELS[step]}`);
+		}
+
+		return lines.join("\n");
+	}
+
+	private async publish(body: string, wait: boolean = false): Promise<void> {
+		const update = this.enqueue(async () => {
+			if (this.commentId === undefined) {
+				return;
+			}
+			await this.github.updateComment(
+				this.owner,
+				this.repo,
+				this.commentId,
+				body,
+			);
+		});
+
+		// Intermediate edits are fire-and-forget; only the final one is awaited
+		if (wait) {
+			await update;
+		}
+	}
+
+	private enqueue(update: () => Promise<void>): Promise<void> {
+		this.updates = this.updates.then(update).catch((error: any) => {
+			// Progress reporting never fails a run
+			logger.warning(
+				`Failed to update progress on issue #${this.issueNumber}: ${error?.message}`,
+			);
+		});
+		return this.updates;
+	}
+}
+
+/**
+ * Markdown lines describing why a run failed. Issue comments are public, so
+ * failed quality checks are listed by name and exit code only; their output
+ * stays in the run record.
+ */
+export function formatFailureDetails(
+	results: WorkflowResults,
+	failureNote?: string,
+): string[] {
+	const lines = [`**Error:** ${results.error ?? "Unknown error"}`];
+
+	if (results.runId) {
+		lines.push(`Inspect with \`constech-worker runs show ${results.runId}\``);
+	}
+
+	const failedChecks = Object.entries(results.qualityChecks ?? {}).filter(
+		([, check]) => !check.passed,
+	);
+	if (failedChecks.length > 0) {
+		lines.push("", "**Failed quality checks:**");
+	}
+	for (const [command, check] of failedChecks) {
+		lines.push(`- \`${command}\` exited with ${check.exitCode}`);
+	}
+
+	if (failureNote) {
+		lines.push("", failureNote);
+	}
+
+	return lines;
+}
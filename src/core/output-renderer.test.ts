@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { OutputRenderer } from "./output-renderer.js";
+
+describe("OutputRenderer", () => {
+	it("buffers partial lines across chunks", () => {
+		const renderer = new OutputRenderer("text");
+
+		expect(renderer.push("Cloning repo")).toEqual([]);
+		expect(renderer.push("sitory\n\x1b[32mdone\x1b[0m\npartial")).toEqual([
+			"Cloning repository",
+			"done",
+		]);
+		expect(renderer.flush()).toEqual(["partial"]);
+	});
+
+	it("renders stream-json events as readable lines", () => {
+		const renderer = new OutputRenderer("stream-json");
+		const events = [
+			{ type: "system", subtype: "init", model: "claude-sonnet" },
+			{
+				type: "assistant",
+				message: {
+					content: [
+						{ type: "text", text: "Adding the toggle" },
+						{
+							type: "tool_use",
+							name: "Edit",
+							input: { file_path: "src/theme.ts" },
+						},
+					],
+				},
+			},
+			{
+				type: "user",
+				message: { content: [{ type: "tool_result", content: "ok" }] },
+			},
+			{ type: "result", duration_ms: 42_000, num_turns: 7 },
+		];
+
+		const lines = renderer.push(
+			`${events.map((event) => JSON.stringify(event)).join("\n")}\nplain script output\n`,
+		);
+
+		expect(lines).toEqual([
+			"⚙️  Session started (claude-sonnet)",
+			"💬 Adding the toggle",
+			"✏️  Edit src/theme.ts",
+			"🏁 Agent finished (42s, 7 turns)",
+			"plain script output",
+		]);
+	});
+});
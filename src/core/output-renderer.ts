@@ -0,0 +1,144 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: will fix later */
+
+export type AgentOutputFormat = "text" | "stream-json";
+
+const MAX_TEXT_LENGTH = 300;
+
+/**
+ * Splits one demultiplexed container stream into complete lines and turns
+ * Claude's `stream-json` events into short readable ones. Lines that aren't
+ * JSON (script output, errors) pass through unchanged.
+ */
+export class OutputRenderer {
+	private format: AgentOutputFormat;
+	private buffer = "";
+
+	constructor(format: AgentOutputFormat = "text") {
+		this.format = format;
+	}
+
+	/**
+	 * Feed a chunk and get back the rendered lines it completed
+	 */
+	push(chunk: string): string[] {
+		this.buffer += chunk;
+		const lines = this.buffer.split("\n");
+		this.buffer = lines.pop() ?? "";
+		return lines.flatMap((line) => this.renderLine(line));
+	}
+
+	/**
+	 * Render whatever is left after the stream ended
+	 */
+	flush(): string[] {
+		const rest = this.buffer;
+		this.buffer = "";
+		return rest ? this.renderLine(rest) : [];
+	}
+
+	private renderLine(line: string): string[] {
+		const clean = stripAnsi(line).trimEnd();
+		if (!clean.trim()) {
+			return [];
+		}
+
+		if (this.format === "stream-json" && clean.startsWith("{")) {
+			try {
+				return renderStreamJsonEvent(JSON.parse(clean));
+			} catch {
+				// Not an event after all; show it as-is
+			}
+		}
+
+		return [clean];
+	}
+}
+
+/**
+ * Describe one event of `claude --output-format stream-json`
+ */
+export function renderStreamJsonEvent(event: any): string[] {
+	switch (event?.type) {
+		case "system":
+			return event.subtype === "init"
+				? [`⚙️  Session started${event.model ? ` (${event.model})` : ""}`]
+				: [];
+		case "assistant":
+			return (event.message?.content ?? []).flatMap((block: any) => {
+				if (block.type === "text" && block.text?.trim()) {
+					return [`💬 ${truncate(block.text.trim())}`];
+				}
+				if (block.type === "tool_use") {
+					return [describeToolUse(block.name, block.input ?? {})];
+				}
+				return [];
+			});
+		case "user":
+			// Tool results are noisy; only surface failures
+			return (event.message?.content ?? []).flatMap((block: any) =>
+				block.type === "tool_result" && block.is_error
+					? [`⚠️  Tool error: ${truncate(toolResultText(block.content))}`]
+					: [],
+			);
+		case "result": {
+			const details = [
+				event.duration_ms !== undefined &&
+					`${Math.round(event.duration_ms / 1000)}s`,
+				event.num_turns !== undefined && `${event.num_turns} turns`,
+				event.total_cost_usd !== undefined &&
+					`$${Number(event.total_cost_usd).toFixed(2)}`,
+			].filter(Boolean);
+			const icon = event.is_error ? "❌" : "🏁";
+			return [
+				`${icon} Agent finished${details.length > 0 ? ` (${details.join(", ")})` : ""}`,
+			];
+		}
+		default:
+			return [];
+	}
+}
+
+function describeToolUse(name: string, input: any): string {
+	switch (name) {
+		case "Bash":
+			return `🔧 $ ${truncate(input.command ?? "")}`;
+		case "Read":
+			return `📖 Read ${input.file_path}`;
+		case "Write":
+			return `📝 Write ${input.file_path}`;
+		case "Edit":
+		case "MultiEdit":
+			return `✏️  Edit ${input.file_path}`;
+		case "Glob":
+		case "Grep":
+			return `🔍 ${name} ${input.pattern}`;
+		case "TodoWrite":
+			return `📋 Update todo list (${input.todos?.length ?? 0} items)`;
+		default:
+			return `🔧 ${name}`;
+	}
+}
+
+function toolResultText(content: any): string {
+	if (typeof content === "string") {
+		return content;
+	}
+	if (Array.isArray(content)) {
+		return content
+			.map((part) => (typeof part?.text === "string" ? part.text : ""))
+			.join(" ");
+	}
+	return "";
+}
+
+function truncate(text: string): string {
+	const singleLine = text.replace(/\s*\n\s*/g, " ");
+	return singleLine.length > MAX_TEXT_LENGTH
+		? `${singleLine.substring(0, MAX_TEXT_LENGTH)}...`
+		: singleLine;
+}
+
+function stripAnsi(text: string): string {
+	// biome-ignore lint/suspicious/noControlCharactersInRegex: stripping ANSI codes
+	return text.replace(/\x1b\[[0-9;?]*[a-zA-Z]/g, "").replace(/\r/g, "");
+}
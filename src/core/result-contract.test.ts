@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { extractAgentResult, parseJsonAnswer } from "./result-contract.js";
+
+describe("extractAgentResult", () => {
+	it("takes the result event from stream-json output", () => {
+		const raw = [
+			JSON.stringify({ type: "system", subtype: "init" }),
+			JSON.stringify({ type: "result", result: "final answer" }),
+		].join("\n");
+
+		expect(extractAgentResult(raw)).toBe("final answer");
+	});
+
+	it("returns plain text output as is", () => {
+		expect(extractAgentResult("  just text\n")).toBe("just text");
+	});
+});
+
+describe("parseJsonAnswer", () => {
+	const schema = z.object({ verdict: z.enum(["approve", "comment"]) });
+
+	it("reads the last fenced block, or a bare object inside prose", () => {
+		expect(
+			parseJsonAnswer(
+				'Draft:\n```json\n{"verdict": "comment"}\n```\nFinal:\n```json\n{"verdict": "approve"}\n```',
+				schema,
+			),
+		).toEqual({ verdict: "approve" });
+		expect(
+			parseJsonAnswer('Here you go: {"verdict": "comment"} Done.', schema),
+		).toEqual({ verdict: "comment" });
+	});
+
+	it("rejects answers that don't match the schema", () => {
+		expect(() => parseJsonAnswer('{"verdict": "merge"}', schema)).toThrow(
+			/failed validation/,
+		);
+		expect(() => parseJsonAnswer("no json here", schema)).toThrow(
+			/not valid JSON/,
+		);
+	});
+});
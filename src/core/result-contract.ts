@@ -0,0 +1,269 @@
+import { z } from "zod";
+import { logger } from "../utils/logger.js";
+import { shellQuote } from "./container-exec.js";
+
+/**
+ * Machine-readable contract between the workflow script running in the
+ * container and the executor on the host. The script writes RESULT_FILE_PATH
+ * after the agent exits; the executor copies it out and validates it.
+ */
+export const RESULT_FILE_PATH = "/tmp/constech-result.json";
+export const CHECKS_LOG_PATH = "/tmp/constech-checks.jsonl";
+export const SUMMARY_FILE_PATH = "/tmp/constech-summary.txt";
+export const HELPER_BIN_DIR = "/tmp/constech-bin";
+/** PID of the workflow script, so a timed out run can be stopped */
+export const WORKFLOW_PID_PATH = "/tmp/constech-workflow.pid";
+/** Copy of the script output, tailed by `constech-worker attach` */
+export const AGENT_LOG_PATH = "/tmp/constech-agent.log";
+/** Written by `constech-worker stop` so the executor knows the run was cancelled */
+export const CANCEL_MARKER_PATH = "/tmp/constech-cancelled";
+/**
+ * What has to survive the container stopping lives in the worker's home, as
+ * /tmp may be a tmpfs (docker.resources.tmpfsSize) that stopping empties
+ */
+export const WORKER_STATE_DIR = "/home/worker/constech";
+/** Why the run failed, written into containers kept with --keep-on-failure */
+export const FAILURE_REASON_PATH = `${WORKER_STATE_DIR}/failure.txt`;
+/** Uncommitted and unpushed work of a failed run, staged for export to the host */
+export const PARTIAL_PATCH_PATH = "/tmp/constech-partial.patch";
+/** The agent's commits, staged for `dispatch --output patch|bundle|local-branch` */
+export const CHANGES_PATCH_PATH = "/tmp/constech-changes.patch";
+export const CHANGES_BUNDLE_PATH = "/tmp/constech-changes.bundle";
+/** Review comments the agent addressed in a `dispatch --pr` run, with a reply for each */
+export const ADDRESSED_COMMENTS_PATH = "/tmp/constech-addressed.json";
+/** Stdout of a read-only analysis run (plan, review, triage), holding its answer */
+export const ANALYSIS_OUTPUT_PATH = "/tmp/constech-analysis.out";
+
+/**
+ * Terminate the workflow script and its direct children (the agent)
+ */
+export const KILL_WORKFLOW_SCRIPT = `PID=$(cat ${WORKFLOW_PID_PATH}) || exit 0
+for CHILD in $(cat /proc/$PID/task/*/children 2>/dev/null); do kill -TERM $CHILD; done
+kill -TERM $PID`;
+/** Clone the workflow script works in, so the executor can inspect it afterwards */
+export const WORKSPACE_DIR = `${WORKER_STATE_DIR}/workspace`;
+
+export const QualityCheckRunSchema = z.object({
+	command: z.string(),
+	exitCode: z.number().int(),
+	durationMs: z.number().nonnegative(),
+});
+
+export const WorkflowResultFileSchema = z.object({
+	version: z.literal(1),
+	exitCode: z.number().int(),
+	branch: z.string().nullable(),
+	baseBranch: z.string(),
+	commits: z.array(
+		z.object({
+			sha: z.string().regex(/^[a-f0-9]{40}$/),
+			subject: z.string(),
+		}),
+	),
+	pullRequest: z
+		.object({
+			number: z.number().int().positive(),
+			url: z.string().url(),
+		})
+		.nullable(),
+	qualityChecks: z.array(QualityCheckRunSchema),
+	summary: z.string().optional(),
+});
+
+export const AddressedCommentsSchema = z.array(
+	z.object({
+		id: z.number().int().positive(),
+		reply: z.string().min(1),
+	}),
+);
+
+export type QualityCheckRun = z.infer<typeof QualityCheckRunSchema>;
+export type WorkflowResultFile = z.infer<typeof WorkflowResultFileSchema>;
+export type AddressedComment = z.infer<typeof AddressedCommentsSchema>[number];
+
+/**
+ * Validate the raw content of a result file, returning null when it is unusable
+ */
+export function parseResultFile(content: string): WorkflowResultFile | null {
+	let json: unknown;
+	try {
+		json = JSON.parse(content);
+	} catch (error: unknown) {
+		logger.warning(
+			`Result file is not valid JSON: ${error instanceof Error ? error.message : error}`,
+		);
+		return null;
+	}
+
+	const parsed = WorkflowResultFileSchema.safeParse(json);
+	if (!parsed.success) {
+		logger.warning(
+			`Result file failed validation: ${parsed.error.errors
+				.map((e) => `${e.path.join(".")}: ${e.message}`)
+				.join(", ")}`,
+		);
+		return null;
+	}
+
+	return parsed.data;
+}
+
+/**
+ * Validate the review comments the agent reports as addressed, returning an
+ * empty list when the file is unusable
+ */
+export function parseAddressedComments(content: string): AddressedComment[] {
+	let json: unknown;
+	try {
+		json = JSON.parse(content);
+	} catch (error: unknown) {
+		logger.warning(
+			`Addressed comments file is not valid JSON: ${error instanceof Error ? error.message : error}`,
+		);
+		return [];
+	}
+
+	const parsed = AddressedCommentsSchema.safeParse(json);
+	if (!parsed.success) {
+		logger.warning(
+			`Addressed comments file failed validation: ${parsed.error.errors
+				.map((e) => `${e.path.join(".")}: ${e.message}`)
+				.join(", ")}`,
+		);
+		return [];
+	}
+
+	return parsed.data;
+}
+
+/**
+ * Install `constech-check`, a wrapper the agent uses to run quality checks so
+ * each command's exit code and duration end up in the result file
+ */
+export function generateCheckHelperCommands(): string[] {
+	return [
+		"# Install result contract helpers",
+		`mkdir -p ${HELPER_BIN_DIR}`,
+		`rm -f ${CHECKS_LOG_PATH} ${SUMMARY_FILE_PATH} ${RESULT_FILE_PATH} ${ADDRESSED_COMMENTS_PATH}`,
+		`cat > ${HELPER_BIN_DIR}/constech-check << 'CONSTECH_CHECK_EOF'`,
+		"#!/bin/bash",
+		'# Usage: constech-check "<command>" - runs a quality check and records the outcome',
+		"START=$(date +%s%3N)",
+		'bash -c "$*"',
+		"EXIT_CODE=$?",
+		"END=$(date +%s%3N)",
+		`node -e 'const [command, exitCode, durationMs] = process.argv.slice(1); require("fs").appendFileSync("${CHECKS_LOG_PATH}", JSON.stringify({ command, exitCode: Number(exitCode), durationMs: Number(durationMs) }) + "\\n")' "$*" "$EXIT_CODE" "$((END - START))"`,
+		"exit $EXIT_CODE",
+		"CONSTECH_CHECK_EOF",
+		`chmod +x ${HELPER_BIN_DIR}/constech-check`,
+		`export PATH="${HELPER_BIN_DIR}:$PATH"`,
+	];
+}
+
+// Runs under `node -e '...'`, so it must not contain single quotes
+const RESULT_WRITER_SCRIPT = String.raw`
+const fs = require("fs");
+const env = process.env;
+const read = (path) => { try { return fs.readFileSync(path, "utf8"); } catch { return ""; } };
+const commits = (env.CONSTECH_COMMITS || "").split("\n").filter(Boolean).map((line) => {
+  const [sha, ...subject] = line.split("\t");
+  return { sha, subject: subject.join("\t") };
+});
+let pullRequest = null;
+try {
+  const pr = JSON.parse(env.CONSTECH_PR || "null");
+  if (pr && pr.number) pullRequest = { number: pr.number, url: pr.url };
+} catch {}
+const qualityChecks = read("${CHECKS_LOG_PATH}").split("\n").filter(Boolean).flatMap((line) => {
+  try { return [JSON.parse(line)]; } catch { return []; }
+});
+const summary = read("${SUMMARY_FILE_PATH}").trim() || undefined;
+fs.writeFileSync("${RESULT_FILE_PATH}", JSON.stringify({
+  version: 1,
+  exitCode: Number(env.CONSTECH_EXIT_CODE),
+  branch: env.CONSTECH_BRANCH || null,
+  baseBranch: env.CONSTECH_BASE_BRANCH,
+  commits,
+  pullRequest,
+  qualityChecks,
+  summary,
+}, null, 2));
+`;
+
+/**
+ * Define `write_constech_result <exit-code>`, called from the workspace after
+ * the agent exits. Commits are counted from `sinceRef`, the base branch unless
+ * the run continues an existing branch.
+ */
+export function generateResultWriterCommands(
+	baseBranch: string,
+	sinceRef: string = `origin/${baseBranch}`,
+): string[] {
+	return [
+		"write_constech_result() {",
+		`  CONSTECH_EXIT_CODE="$1" \\`,
+		`  CONSTECH_BASE_BRANCH=${shellQuote(baseBranch)} \\`,
+		'  CONSTECH_BRANCH="$(git branch --show-current 2>/dev/null)" \\',
+		`  CONSTECH_COMMITS="$(git log --format='%H%x09%s' ${shellQuote(`${sinceRef}..HEAD`)} 2>/dev/null)" \\`,
+		'  CONSTECH_PR="$(gh pr view --json number,url 2>/dev/null)" \\',
+		`  node -e '${RESULT_WRITER_SCRIPT.trim()}' >&2 || echo "Warning: failed to write result file" >&2`,
+		"}",
+	];
+}
+
+/**
+ * The agent's final answer from its captured stdout: the `result` event in
+ * stream-json output, or the whole text otherwise
+ */
+export function extractAgentResult(raw: string): string {
+	let result: string | undefined;
+	for (const line of raw.split("\n")) {
+		if (!line.startsWith("{")) {
+			continue;
+		}
+		try {
+			const event = JSON.parse(line);
+			if (event?.type === "result" && typeof event.result === "string") {
+				result = event.result;
+			}
+		} catch {
+			// Not an event line
+		}
+	}
+
+	return (result ?? raw).trim();
+}
+
+/**
+ * Parse the JSON object an analysis run answers with. Agents tend to wrap it
+ * in a fenced block or surround it with prose, so both are accepted.
+ */
+export function parseJsonAnswer<T>(
+	answer: string,
+	schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+): T {
+	const fenced = [...answer.matchAll(/```(?:json)?\s*\n([\s\S]*?)```/g)].at(-1);
+	const candidate =
+		fenced?.[1] ??
+		answer.slice(answer.indexOf("{"), answer.lastIndexOf("}") + 1);
+
+	let json: unknown;
+	try {
+		json = JSON.parse(candidate);
+	} catch (error: unknown) {
+		throw new Error(
+			`Agent answer is not valid JSON: ${error instanceof Error ? error.message : error}`,
+		);
+	}
+
+	const parsed = schema.safeParse(json);
+	if (!parsed.success) {
+		throw new Error(
+			`Agent answer failed validation: ${parsed.error.errors
+				.map((e) => `${e.path.join(".")}: ${e.message}`)
+				.join(", ")}`,
+		);
+	}
+
+	return parsed.data;
+}
@@ -0,0 +1,149 @@
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { RunStore } from "./run-store.js";
+
+describe("RunStore", () => {
+	let projectPath: string;
+	let store: RunStore;
+	const runsDir = () => join(projectPath, ".constech-worker", "runs");
+
+	const finished = (runId: string, success = true) => ({
+		runId,
+		issueNumber: 12,
+		startTime: new Date("2025-01-01T12:00:00Z"),
+		endTime: new Date("2025-01-01T12:05:00Z"),
+		success,
+	});
+
+	beforeEach(() => {
+		projectPath = mkdtempSync(join(tmpdir(), "run-store-"));
+		store = new RunStore(projectPath);
+	});
+
+	afterEach(() => {
+		rmSync(projectPath, { recursive: true, force: true });
+	});
+
+	it("creates sortable run ids", () => {
+		const id = RunStore.createRunId(new Date("2025-01-01T12:00:00Z"));
+		expect(id).toMatch(/^20250101-120000-[0-9a-f]{4}$/);
+	});
+
+	it("round-trips a run with its status and dates", async () => {
+		await store.save(finished("20250101-120000-aaaa"));
+
+		const run = await store.load("20250101-120000-aaaa");
+		expect(run.status).toBe("succeeded");
+		expect(run.issueNumber).toBe(12);
+		expect(run.endTime).toEqual(new Date("2025-01-01T12:05:00Z"));
+	});
+
+	it("derives the status from how the run ended", async () => {
+		const start = { startTime: new Date(), success: false };
+		await store.save({ runId: "1-running", ...start });
+		await store.save({
+			runId: "2-timed-out",
+			...start,
+			endTime: new Date(),
+			timedOut: true,
+		});
+		await store.save({
+			runId: "3-cancelled",
+			...start,
+			endTime: new Date(),
+			cancelled: true,
+			timedOut: true,
+		});
+
+		expect((await store.load("1-running")).status).toBe("running");
+		expect((await store.load("2-timed-out")).status).toBe("timed-out");
+		expect((await store.load("3-cancelled")).status).toBe("cancelled");
+	});
+
+	it("loads a run by unique prefix", async () => {
+		await store.save(finished("20250101-120000-aaaa"));
+		await store.save(finished("20250102-120000-bbbb"));
+
+		expect((await store.load("20250102")).runId).toBe("20250102-120000-bbbb");
+		await expect(store.load("2025")).rejects.toThrow("is ambiguous");
+		await expect(store.load("2024")).rejects.toThrow("not found");
+	});
+
+	it("lists runs newest first, skipping unreadable records", async () => {
+		await store.save(finished("20250101-120000-aaaa"));
+		await store.save(finished("20250103-120000-cccc"));
+		writeFileSync(join(runsDir(), "20250102-120000-bbbb.json"), "{broken");
+
+		const runs = await store.list();
+		expect(runs.map((run) => run.runId)).toEqual([
+			"20250103-120000-cccc",
+			"20250101-120000-aaaa",
+		]);
+		expect(await store.list(1)).toHaveLength(1);
+	});
+
+	it("reads logs, treating a missing one as empty", async () => {
+		expect(await store.readLog("20250101-120000-aaaa")).toBe("");
+
+		const stream = await store.createLogStream("20250101-120000-aaaa");
+		await new Promise<void>((resolve) =>
+			stream?.end("agent output\n", resolve),
+		);
+
+		expect(await store.readLog("20250101-120000-aaaa")).toBe("agent output\n");
+	});
+
+	it("prunes old runs with their files, keeping running ones", async () => {
+		await store.save({
+			runId: "20250101-120000-aaaa",
+			startTime: new Date(),
+			success: false,
+		});
+		await store.save(finished("20250102-120000-bbbb", false));
+		await store.saveArtifact("20250102-120000-bbbb", "patch", "diff");
+		writeFileSync(store.getLogPath("20250102-120000-bbbb"), "output");
+		await store.save(finished("20250103-120000-cccc"));
+
+		expect(await store.prune(1)).toEqual(["20250102-120000-bbbb"]);
+		expect((await store.list()).map((run) => run.runId)).toEqual([
+			"20250103-120000-cccc",
+			"20250101-120000-aaaa",
+		]);
+		expect(existsSync(join(runsDir(), "20250102-120000-bbbb.patch"))).toBe(
+			false,
+		);
+		expect(existsSync(store.getLogPath("20250102-120000-bbbb"))).toBe(false);
+		expect(await store.prune(5)).toEqual([]);
+	});
+
+	it("prunes running records their worker left behind", async () => {
+		const started = (runId: string, startTime: Date) =>
+			store.save({ runId, startTime, success: false, containerId: runId });
+		await started("20240101-120000-aaaa", new Date("2024-01-01T12:00:00Z"));
+		await started("20250101-120000-bbbb", new Date());
+		await started("20250102-120000-cccc", new Date());
+		await store.save(finished("20250103-120000-dddd"));
+
+		const live = new Set(["20250102-120000-cccc"]);
+		expect(
+			await store.prune(1, (run) => live.has(run.containerId ?? "")),
+		).toEqual(["20250101-120000-bbbb", "20240101-120000-aaaa"]);
+		expect((await store.list()).map((run) => run.runId)).toEqual([
+			"20250103-120000-dddd",
+			"20250102-120000-cccc",
+		]);
+	});
+
+	it("prunes a running record past any timeout without a liveness check", async () => {
+		await store.save({
+			runId: "20240101-120000-aaaa",
+			startTime: new Date("2024-01-01T12:00:00Z"),
+			success: false,
+		});
+		await store.save(finished("20250103-120000-dddd"));
+
+		expect(await store.prune(1)).toEqual(["20240101-120000-aaaa"]);
+	});
+});
@@ -0,0 +1,234 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: will fix later */
+import { randomBytes } from "node:crypto";
+import { createWriteStream, promises as fs, type WriteStream } from "node:fs";
+import { join } from "node:path";
+import { logger } from "../utils/logger.js";
+import { MAX_TIMEOUT_MINUTES } from "./config-schema.js";
+import type { WorkflowResults } from "./workflow-executor.js";
+
+export type RunStatus =
+	| "running"
+	| "succeeded"
+	| "failed"
+	| "timed-out"
+	| "oom-killed"
+	| "cancelled";
+
+export interface RunRecord extends WorkflowResults {
+	runId: string;
+	status: RunStatus;
+}
+
+/**
+ * Persists workflow results and container output under
+ * `.constech-worker/runs/<id>.json` and `.constech-worker/runs/<id>.log`
+ */
+export class RunStore {
+	private runsDir: string;
+
+	constructor(projectPath: string = process.cwd()) {
+		this.runsDir = join(projectPath, ".constech-worker", "runs");
+	}
+
+	/**
+	 * Generate a sortable, collision-resistant run id
+	 */
+	static createRunId(date: Date = new Date()): string {
+		const timestamp = date
+			.toISOString()
+			.replace(/[-:]/g, "")
+			.replace("T", "-")
+			.slice(0, 15);
+		return `${timestamp}-${randomBytes(2).toString("hex")}`;
+	}
+
+	getLogPath(runId: string): string {
+		return join(this.runsDir, `${runId}.log`);
+	}
+
+	/**
+	 * Write the current state of a run
+	 */
+	async save(results: WorkflowResults & { runId: string }): Promise<void> {
+		const record: RunRecord = {
+			...results,
+			status: !results.endTime
+				? "running"
+				: results.success
+					? "succeeded"
+					: results.cancelled
+						? "cancelled"
+						: results.timedOut
+							? "timed-out"
+							: results.oomKilled
+								? "oom-killed"
+								: "failed",
+		};
+
+		try {
+			await fs.mkdir(this.runsDir, { recursive: true });
+			await fs.writeFile(
+				join(this.runsDir, `${results.runId}.json`),
+				JSON.stringify(record, null, 2),
+			);
+		} catch (error: any) {
+			// Run history is an audit aid; never fail a workflow because of it
+			logger.warning(`Failed to save run ${results.runId}: ${error?.message}`);
+		}
+	}
+
+	/**
+	 * Open an append stream for a run's container output
+	 */
+	async createLogStream(runId: string): Promise<WriteStream | undefined> {
+		try {
+			await fs.mkdir(this.runsDir, { recursive: true });
+			const stream = createWriteStream(this.getLogPath(runId), { flags: "a" });
+			stream.on("error", (error) => {
+				logger.warning(`Failed to write run log ${runId}: ${error.message}`);
+			});
+			return stream;
+		} catch (error: any) {
+			logger.warning(`Failed to open run log ${runId}: ${error?.message}`);
+			return undefined;
+		}
+	}
+
+	/**
+	 * Load a run by id or unique id prefix
+	 */
+	async load(idOrPrefix: string): Promise<RunRecord> {
+		const ids = await this.listIds();
+		const matches = ids.filter((id) => id.startsWith(idOrPrefix));
+
+		if (matches.length === 0) {
+			throw new Error(`Run "${idOrPrefix}" not found`);
+		}
+		if (matches.length > 1 && !matches.includes(idOrPrefix)) {
+			throw new Error(
+				`Run id "${idOrPrefix}" is ambiguous (${matches.length} matches)`,
+			);
+		}
+
+		const runId = matches.includes(idOrPrefix) ? idOrPrefix : matches[0];
+		return this.read(runId);
+	}
+
+	/**
+	 * List runs, newest first
+	 */
+	async list(limit?: number): Promise<RunRecord[]> {
+		const ids = (await this.listIds()).sort().reverse();
+		const selected = limit ? ids.slice(0, limit) : ids;
+		const records: RunRecord[] = [];
+
+		for (const runId of selected) {
+			try {
+				records.push(await this.read(runId));
+			} catch (error: any) {
+				logger.debug(`Skipping unreadable run ${runId}: ${error?.message}`);
+			}
+		}
+
+		return records;
+	}
+
+	/**
+	 * Delete all but the newest `keep` runs, with their logs and artifacts.
+	 * Runs still in progress are kept. A record a killed worker left "running"
+	 * is stale once `isLive` finds no container for it, or once it is older
+	 * than any run timeout allows. Returns the deleted run ids.
+	 */
+	async prune(
+		keep: number,
+		isLive?: (run: RunRecord) => boolean,
+	): Promise<string[]> {
+		const ids = (await this.listIds()).sort().reverse();
+		const files = ids.length > keep ? await fs.readdir(this.runsDir) : [];
+		const deleted: string[] = [];
+
+		for (const runId of ids.slice(keep)) {
+			try {
+				const run = await this.read(runId);
+				if (run.status === "running" && !isStale(run, isLive)) {
+					continue;
+				}
+			} catch {
+				// An unreadable record can't be shown anyway
+			}
+
+			for (const file of files.filter((f) => f.startsWith(`${runId}.`))) {
+				await fs.rm(join(this.runsDir, file), { force: true });
+			}
+			deleted.push(runId);
+		}
+
+		return deleted;
+	}
+
+	/**
+	 * Write a file produced by a run next to its record, returning its path
+	 */
+	async saveArtifact(
+		runId: string,
+		extension: string,
+		content: Buffer | string,
+	): Promise<string> {
+		const path = join(this.runsDir, `${runId}.${extension}`);
+		await fs.mkdir(this.runsDir, { recursive: true });
+		await fs.writeFile(path, content);
+		return path;
+	}
+
+	/**
+	 * Read the full container output log for a run
+	 */
+	async readLog(runId: string): Promise<string> {
+		try {
+			return await fs.readFile(this.getLogPath(runId), "utf-8");
+		} catch (error: any) {
+			if (error?.code === "ENOENT") {
+				return "";
+			}
+			throw error;
+		}
+	}
+
+	private async read(runId: string): Promise<RunRecord> {
+		const content = await fs.readFile(
+			join(this.runsDir, `${runId}.json`),
+			"utf-8",
+		);
+		const record = JSON.parse(content);
+
+		return {
+			...record,
+			startTime: new Date(record.startTime),
+			endTime: record.endTime ? new Date(record.endTime) : undefined,
+		};
+	}
+
+	private async listIds(): Promise<string[]> {
+		try {
+			const files = await fs.readdir(this.runsDir);
+			return files
+				.filter((file) => file.endsWith(".json"))
+				.map((file) => file.slice(0, -".json".length));
+		} catch (error: any) {
+			if (error?.code === "ENOENT") {
+				return [];
+			}
+			throw error;
+		}
+	}
+}
+
+function isStale(
+	run: RunRecord,
+	isLive?: (run: RunRecord) => boolean,
+): boolean {
+	const age = Date.now() - run.startTime.getTime();
+	return (
+		age > MAX_TIMEOUT_MINUTES * 60_000 || (isLive !== undefined && !isLive(run))
+	);
+}
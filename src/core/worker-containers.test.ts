@@ -0,0 +1,102 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type Docker from "dockerode";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { RunStore } from "./run-store.js";
+import { RUN_ID_LABEL, resolveWorkerContainer } from "./worker-containers.js";
+
+const running = (id: string, name: string, runId?: string) => ({
+	Id: id,
+	Names: [`/${name}`],
+	Labels: runId ? { [RUN_ID_LABEL]: runId } : {},
+});
+
+const dockerWith = (...containers: ReturnType<typeof running>[]) =>
+	({ listContainers: async () => containers }) as unknown as Docker;
+
+describe("resolveWorkerContainer", () => {
+	let store: RunStore;
+	let projectPath: string;
+
+	const docker = dockerWith(
+		running(
+			"a1b2c3",
+			"constech-worker-app-20250101-120000-12",
+			"20250101-120000-ab12",
+		),
+		running(
+			"d4e5f6",
+			"constech-worker-app-20250101-130000-15",
+			"20250101-130000-cd34",
+		),
+		running("0a0b0c", "constech-worker-app-20250101-140000"),
+	);
+
+	beforeEach(() => {
+		projectPath = mkdtempSync(join(tmpdir(), "worker-containers-"));
+		store = new RunStore(projectPath);
+	});
+
+	afterEach(() => {
+		rmSync(projectPath, { recursive: true, force: true });
+	});
+
+	it("finds a worker by run id prefix, container name or container id", async () => {
+		for (const ref of [
+			"20250101-120000",
+			"constech-worker-app-20250101-120000-12",
+			"a1b2",
+		]) {
+			expect(await resolveWorkerContainer(docker, ref, store)).toEqual({
+				id: "a1b2c3",
+				name: "constech-worker-app-20250101-120000-12",
+				runId: "20250101-120000-ab12",
+			});
+		}
+	});
+
+	it("refuses a prefix that matches more than one worker", async () => {
+		await expect(
+			resolveWorkerContainer(docker, "20250101-1", store),
+		).rejects.toThrow(
+			'"20250101-1" matches 2 running workers: constech-worker-app-20250101-120000-12, constech-worker-app-20250101-130000-15',
+		);
+	});
+
+	it("falls back to the run history for unlabeled containers", async () => {
+		await store.save({
+			runId: "20250101-140000-ef56",
+			startTime: new Date(),
+			success: false,
+			containerId: "0a0b0c",
+		});
+
+		expect(
+			await resolveWorkerContainer(docker, "20250101-140000-ef", store),
+		).toEqual({
+			id: "0a0b0c",
+			name: "constech-worker-app-20250101-140000",
+			runId: "20250101-140000-ef56",
+		});
+	});
+
+	it("explains when a run's container is gone", async () => {
+		await store.save({
+			runId: "20241231-090000-aa11",
+			startTime: new Date(),
+			endTime: new Date(),
+			success: false,
+			containerId: "ffffff",
+		});
+
+		await expect(
+			resolveWorkerContainer(docker, "20241231-090000-aa11", store),
+		).rejects.toThrow(
+			"Run 20241231-090000-aa11 has no running container (status: failed)",
+		);
+		await expect(
+			resolveWorkerContainer(docker, "nothing-like-it", store),
+		).rejects.toThrow('No running worker matches "nothing-like-it"');
+	});
+});
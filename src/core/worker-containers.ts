@@ -0,0 +1,81 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: will fix later */
+import type Docker from "dockerode";
+import { type RunRecord, RunStore } from "./run-store.js";
+
+/** Docker label carrying the run id of the worker a container belongs to */
+export const RUN_ID_LABEL = "constech-worker.run-id";
+
+const CONTAINER_NAME_PREFIX = "constech-worker-";
+
+export interface WorkerContainer {
+	id: string;
+	name: string;
+	runId?: string;
+}
+
+/**
+ * Running worker containers, named `constech-worker-<project>-<timestamp>[-<issue>]`
+ */
+export async function listWorkerContainers(
+	docker: Docker,
+): Promise<WorkerContainer[]> {
+	const containers = await docker.listContainers({
+		filters: { name: [CONTAINER_NAME_PREFIX] },
+	});
+
+	return containers.map((container) => ({
+		id: container.Id,
+		name: container.Names[0]?.replace(/^\//, "") ?? container.Id,
+		runId: container.Labels?.[RUN_ID_LABEL],
+	}));
+}
+
+/**
+ * Find the running container of a worker by run id, container name, or a
+ * unique prefix of either (or of the container id)
+ */
+export async function resolveWorkerContainer(
+	docker: Docker,
+	ref: string,
+	store: RunStore = new RunStore(),
+): Promise<WorkerContainer> {
+	const workers = await listWorkerContainers(docker);
+	const matches = workers.filter(
+		(worker) =>
+			worker.name === ref ||
+			worker.runId?.startsWith(ref) ||
+			worker.id.startsWith(ref) ||
+			(ref.startsWith(CONTAINER_NAME_PREFIX) && worker.name.startsWith(ref)),
+	);
+
+	if (matches.length === 1) {
+		return matches[0];
+	}
+	if (matches.length > 1) {
+		throw new Error(
+			`"${ref}" matches ${matches.length} running workers: ${matches.map((worker) => worker.name).join(", ")}`,
+		);
+	}
+
+	// Fall back to the run history for containers started without the label
+	let run: RunRecord;
+	try {
+		run = await store.load(ref);
+	} catch {
+		throw new Error(
+			`No running worker matches "${ref}". List them with: constech-worker containers`,
+		);
+	}
+
+	const worker = workers.find(
+		(candidate) =>
+			candidate.id === run.containerId || candidate.name === run.containerName,
+	);
+	if (!worker) {
+		throw new Error(
+			`Run ${run.runId} has no running container (status: ${run.status})`,
+		);
+	}
+
+	return { ...worker, runId: run.runId };
+}
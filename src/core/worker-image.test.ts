@@ -0,0 +1,217 @@
+import {
+	existsSync,
+	mkdirSync,
+	mkdtempSync,
+	readFileSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type Docker from "dockerode";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ConfigSchema, DefaultConfig } from "./config-schema.js";
+import type { ContainerRuntime } from "./container-runtime.js";
+import {
+	buildWorkerImage,
+	defaultImageRepository,
+	pruneWorkerImages,
+	registryAuth,
+	registryHost,
+	resolveWorkerImage,
+	splitImageReference,
+} from "./worker-image.js";
+
+describe("resolveWorkerImage", () => {
+	let projectPath: string;
+	const config = ConfigSchema.parse(DefaultConfig);
+
+	beforeEach(() => {
+		projectPath = mkdtempSync(join(tmpdir(), "worker-image-"));
+	});
+
+	afterEach(() => {
+		rmSync(projectPath, { recursive: true, force: true });
+	});
+
+	it("fingerprints the generated Dockerfile without a devcontainer", async () => {
+		const image = await resolveWorkerImage(config, { projectPath });
+
+		expect(image.kind).toBe("default");
+		expect(image.tag).toBe(
+			`${defaultImageRepository(config)}:${image.fingerprint}`,
+		);
+		expect(image.fingerprint).toMatch(/^[0-9a-f]{12}$/);
+		expect(await resolveWorkerImage(config, { projectPath })).toEqual(image);
+	});
+
+	it("changes with the node version and MCP servers", async () => {
+		const image = await resolveWorkerImage(config, { projectPath });
+		const node = await resolveWorkerImage(
+			{ ...config, docker: { ...config.docker, nodeVersion: "22" } },
+			{ projectPath },
+		);
+		const mcp = await resolveWorkerImage(
+			{
+				...config,
+				docker: {
+					...config.docker,
+					mcpServers: { ...config.docker.mcpServers, semgrep: true },
+				},
+			},
+			{ projectPath },
+		);
+
+		expect(node.fingerprint).not.toBe(image.fingerprint);
+		expect(mcp.fingerprint).not.toBe(image.fingerprint);
+	});
+
+	it("changes with the devcontainer contents", async () => {
+		const devContainer = join(projectPath, ".devcontainer");
+		mkdirSync(devContainer);
+		writeFileSync(join(devContainer, "Dockerfile"), "FROM node:20\n");
+
+		const before = await resolveWorkerImage(config, { projectPath });
+		writeFileSync(join(devContainer, "Dockerfile"), "FROM node:22\n");
+		const after = await resolveWorkerImage(config, { projectPath });
+
+		expect(before.kind).toBe("devcontainer");
+		expect(after.fingerprint).not.toBe(before.fingerprint);
+		expect(
+			(await resolveWorkerImage(config, { projectPath, devContainer: false }))
+				.kind,
+		).toBe("default");
+	});
+});
+
+describe("pruneWorkerImages", () => {
+	const config = ConfigSchema.parse({
+		...DefaultConfig,
+		project: { ...DefaultConfig.project, name: "My App" },
+	});
+
+	it("only removes the current project's stale images", async () => {
+		const tags = [
+			"constech-worker-my-app-default:aaa",
+			"constech-worker-my-app-default:bbb",
+			"localhost/constech-worker-my-app-devcontainer:ccc",
+			"constech-worker-other-default:ddd",
+		];
+		const removed: string[] = [];
+		const docker = {
+			listImages: async () => tags.map((tag) => ({ RepoTags: [tag] })),
+			getImage: (tag: string) => ({
+				remove: async () => {
+					removed.push(tag);
+				},
+			}),
+		} as unknown as Docker;
+
+		const result = await pruneWorkerImages(
+			docker,
+			config,
+			"constech-worker-my-app-default:aaa",
+		);
+
+		expect(result.removed).toEqual([
+			"constech-worker-my-app-default:bbb",
+			"localhost/constech-worker-my-app-devcontainer:ccc",
+		]);
+		expect(removed).toEqual(result.removed);
+	});
+});
+
+describe("splitImageReference", () => {
+	it("splits off the tag", () => {
+		expect(splitImageReference("ghcr.io/acme/worker:1.2")).toEqual({
+			repository: "ghcr.io/acme/worker",
+			tag: "1.2",
+		});
+	});
+
+	it("defaults to latest and keeps registry ports", () => {
+		expect(splitImageReference("localhost:5000/worker")).toEqual({
+			repository: "localhost:5000/worker",
+			tag: "latest",
+		});
+	});
+});
+
+describe("registryAuth", () => {
+	const config = ConfigSchema.parse(DefaultConfig);
+
+	afterEach(() => {
+		delete process.env.CONSTECH_WORKER_REGISTRY_PASSWORD;
+	});
+
+	it("finds the registry of a reference", () => {
+		expect(registryHost("ghcr.io/acme/worker:latest")).toBe("ghcr.io");
+		expect(registryHost("acme/worker")).toBe("https://index.docker.io/v1/");
+	});
+
+	it("needs both a username and the password variable", () => {
+		const withUser = {
+			...config,
+			docker: {
+				...config.docker,
+				registry: { ...config.docker.registry, username: "bot" },
+			},
+		};
+		expect(registryAuth(withUser, "ghcr.io/acme/worker")).toBeUndefined();
+
+		process.env.CONSTECH_WORKER_REGISTRY_PASSWORD = "secret";
+		expect(registryAuth(config, "ghcr.io/acme/worker")).toBeUndefined();
+		expect(registryAuth(withUser, "ghcr.io/acme/worker")).toEqual({
+			username: "bot",
+			password: "secret",
+			serveraddress: "ghcr.io",
+		});
+	});
+});
+
+describe("buildWorkerImage", () => {
+	let binDir: string;
+
+	beforeEach(() => {
+		binDir = mkdtempSync(join(tmpdir(), "worker-image-bin-"));
+		// Stand-in for the docker CLI that records its arguments
+		writeFileSync(
+			join(binDir, "docker"),
+			`#!/bin/sh\nprintf '%s\\n' "$@" > "${join(binDir, "args")}"\n`,
+			{ mode: 0o755 },
+		);
+	});
+
+	afterEach(() => {
+		rmSync(binDir, { recursive: true, force: true });
+	});
+
+	it("passes the tag to the CLI as a single argument", async () => {
+		const marker = join(binDir, "pwned");
+		const runtime = {
+			cli: "docker",
+			cliEnv: { ...process.env, PATH: `${binDir}:${process.env.PATH}` },
+		} as unknown as ContainerRuntime;
+
+		await buildWorkerImage(
+			{
+				kind: "default",
+				fingerprint: "abc123",
+				tag: `constech-worker:abc123;touch ${marker}`,
+				dockerfile: "FROM node:20\n",
+			},
+			runtime,
+		);
+
+		expect(readFileSync(join(binDir, "args"), "utf8").split("\n")).toEqual([
+			"build",
+			"--label",
+			"constech-worker.fingerprint=abc123",
+			"-t",
+			`constech-worker:abc123;touch ${marker}`,
+			".",
+			"",
+		]);
+		expect(existsSync(marker)).toBe(false);
+	});
+});
@@ -0,0 +1,402 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: will fix later */
+import { execFileSync } from "node:child_process";
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, relative } from "node:path";
+import type Docker from "dockerode";
+import type { Config } from "./config-schema.js";
+import type { ContainerRuntime } from "./container-runtime.js";
+import { McpManager } from "./mcp-manager.js";
+
+/** Docker label carrying the fingerprint an image was built from */
+export const IMAGE_FINGERPRINT_LABEL = "constech-worker.fingerprint";
+
+/** PATH inside worker containers; npm-global is where devcontainers install claude */
+export const WORKER_PATH =
+	"/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin:/usr/local/share/npm-global/bin:/usr/local/share/pnpm";
+
+/** Commands the workflow runs, which a pre-built image has to provide */
+export const REQUIRED_WORKER_TOOLS = ["claude", "git", "gh"];
+
+export interface WorkerImage {
+	kind: "devcontainer" | "default";
+	fingerprint: string;
+	/** `<repository>:<fingerprint>` */
+	tag: string;
+	/** Set for the default image, which is built from it */
+	dockerfile?: string;
+}
+
+/**
+ * Dockerfile of the default worker image, used when the project has no
+ * devcontainer
+ */
+export function generateWorkerDockerfile(config: Config): string {
+	const mcpCommands = new McpManager(config).generateDockerfileCommands();
+
+	return `
+FROM node:${config.docker.nodeVersion}
+
+# Install system dependencies
+RUN apt-get update && apt-get install -y --no-install-recommends \\
+  git gh jq vim nano curl wget unzip \\
+  && apt-get clean && rm -rf /var/lib/apt/lists/*
+
+# Create worker user
+RUN useradd -m worker && usermod -aG sudo worker
+RUN echo "worker ALL=(ALL) NOPASSWD:ALL" >> /etc/sudoers
+
+# Install Claude Code
+RUN npm install -g @anthropic-ai/claude-code
+
+# Install MCP servers
+${mcpCommands.join("\n")}
+
+# Configure git
+RUN git config --system user.name "constech-worker"
+RUN git config --system user.email "worker@constech.dev"
+RUN git config --system credential.helper store
+
+# Set up working directory
+WORKDIR /workspace
+
+# Switch to worker user
+USER worker
+
+CMD ["sleep", "infinity"]
+    `;
+}
+
+/**
+ * Hash the names and contents of every file below a directory
+ */
+export async function hashDirectory(dir: string): Promise<string> {
+	const hash = createHash("sha256");
+
+	const visit = async (current: string): Promise<void> => {
+		const entries = await fs.readdir(current, { withFileTypes: true });
+		entries.sort((a, b) => a.name.localeCompare(b.name));
+
+		for (const entry of entries) {
+			const path = join(current, entry.name);
+			if (entry.isDirectory()) {
+				await visit(path);
+			} else if (entry.isFile()) {
+				hash.update(relative(dir, path));
+				hash.update("\0");
+				hash.update(await fs.readFile(path));
+				hash.update("\0");
+			}
+		}
+	};
+
+	await visit(dir);
+	return hash.digest("hex");
+}
+
+/**
+ * The image this project's workers run in, tagged with a fingerprint of
+ * everything it's built from: the Dockerfile or the devcontainer folder, the
+ * node version and the enabled MCP servers
+ */
+export async function resolveWorkerImage(
+	config: Config,
+	options: { projectPath?: string; devContainer?: boolean } = {},
+): Promise<WorkerImage> {
+	const devContainerPath = join(
+		options.projectPath ?? process.cwd(),
+		config.docker.devContainerPath,
+	);
+	const hasDevContainer =
+		options.devContainer !== false &&
+		(await fs
+			.stat(devContainerPath)
+			.then((stat) => stat.isDirectory())
+			.catch(() => false));
+
+	const hash = createHash("sha256");
+	hash.update(
+		JSON.stringify({
+			nodeVersion: config.docker.nodeVersion,
+			mcpServers: new McpManager(config).getEnabledServers(),
+		}),
+	);
+
+	if (hasDevContainer) {
+		hash.update(await hashDirectory(devContainerPath));
+		const fingerprint = hash.digest("hex").slice(0, 12);
+		return {
+			kind: "devcontainer",
+			fingerprint,
+			tag: `${devContainerRepository(config)}:${fingerprint}`,
+		};
+	}
+
+	const dockerfile = generateWorkerDockerfile(config);
+	hash.update(dockerfile);
+	const fingerprint = hash.digest("hex").slice(0, 12);
+	return {
+		kind: "default",
+		fingerprint,
+		tag: `${defaultImageRepository(config)}:${fingerprint}`,
+		dockerfile,
+	};
+}
+
+/**
+ * Repository of a project's devcontainer images; Docker wants it lowercase
+ */
+export function devContainerRepository(config: Config): string {
+	return `constech-worker-${projectSlug(config)}-devcontainer`;
+}
+
+/**
+ * Repository of a project's images built from the generated Dockerfile, kept
+ * per project so pruning one project never removes another's image
+ */
+export function defaultImageRepository(config: Config): string {
+	return `constech-worker-${projectSlug(config)}-default`;
+}
+
+function projectSlug(config: Config): string {
+	return config.project.name.toLowerCase().replace(/[^a-z0-9_.-]/g, "-");
+}
+
+export async function imageExists(
+	docker: Docker,
+	tag: string,
+): Promise<boolean> {
+	try {
+		await docker.getImage(tag).inspect();
+		return true;
+	} catch (error: any) {
+		if (error?.statusCode === 404) {
+			return false;
+		}
+		throw error;
+	}
+}
+
+/**
+ * Remove this project's worker images whose fingerprint is not `keep`. Images
+ * still used by a container are left alone.
+ */
+export async function pruneWorkerImages(
+	docker: Docker,
+	config: Config,
+	keep: string,
+): Promise<{ removed: string[]; failed: { tag: string; error: string }[] }> {
+	const repositories = [
+		defaultImageRepository(config),
+		devContainerRepository(config),
+	];
+	const images = await docker.listImages({
+		filters: { reference: repositories },
+	});
+
+	const removed: string[] = [];
+	const failed: { tag: string; error: string }[] = [];
+
+	for (const image of images) {
+		for (const tag of image.RepoTags ?? []) {
+			// Podman lists images built locally under localhost/
+			const name = tag.replace(/^localhost\//, "");
+			if (name === keep || !repositories.includes(name.split(":")[0])) {
+				continue;
+			}
+			try {
+				await docker.getImage(tag).remove();
+				removed.push(tag);
+			} catch (error: any) {
+				failed.push({ tag, error: error?.message ?? String(error) });
+			}
+		}
+	}
+
+	return { removed, failed };
+}
+
+/**
+ * Build the image from the devcontainer or the generated Dockerfile, tagged
+ * with its fingerprint
+ */
+export async function buildWorkerImage(
+	image: WorkerImage,
+	runtime: ContainerRuntime,
+	projectPath: string = process.cwd(),
+): Promise<void> {
+	if (image.kind === "devcontainer") {
+		execFileSync(
+			"npx",
+			[
+				"--yes",
+				"@devcontainers/cli",
+				"build",
+				"--docker-path",
+				runtime.cli,
+				"--workspace-folder",
+				projectPath,
+				"--image-name",
+				image.tag,
+			],
+			{
+				cwd: projectPath,
+				stdio: "pipe",
+				encoding: "utf8",
+				env: runtime.cliEnv,
+			},
+		);
+		return;
+	}
+
+	// The Dockerfile copies nothing in, so an empty directory is the context
+	const contextDir = await fs.mkdtemp(join(tmpdir(), "constech-docker-"));
+	try {
+		await fs.writeFile(join(contextDir, "Dockerfile"), image.dockerfile ?? "");
+		execFileSync(
+			runtime.cli,
+			[
+				"build",
+				"--label",
+				`${IMAGE_FINGERPRINT_LABEL}=${image.fingerprint}`,
+				"-t",
+				image.tag,
+				".",
+			],
+			{ cwd: contextDir, stdio: "pipe", env: runtime.cliEnv },
+		);
+	} catch (error: any) {
+		throw new Error(`Image build failed: ${error.message}`);
+	} finally {
+		await fs.rm(contextDir, { recursive: true, force: true });
+	}
+}
+
+/**
+ * Split `registry/repository:tag` into the repository and tag, which is
+ * `latest` when missing. A digest stays part of the repository.
+ */
+export function splitImageReference(reference: string): {
+	repository: string;
+	tag: string;
+} {
+	if (reference.includes("@")) {
+		return { repository: reference, tag: "" };
+	}
+	const separator = reference.lastIndexOf(":");
+	// A colon before the last slash is a registry port, not a tag
+	if (separator === -1 || separator < reference.lastIndexOf("/")) {
+		return { repository: reference, tag: "latest" };
+	}
+	return {
+		repository: reference.slice(0, separator),
+		tag: reference.slice(separator + 1),
+	};
+}
+
+/**
+ * Registry a reference points at; Docker Hub when the first part isn't a host
+ */
+export function registryHost(reference: string): string {
+	const [first, ...rest] = reference.split("/");
+	if (
+		rest.length > 0 &&
+		(first.includes(".") || first.includes(":") || first === "localhost")
+	) {
+		return first;
+	}
+	return "https://index.docker.io/v1/";
+}
+
+/**
+ * Credentials for pulling or pushing `reference`, from `docker.registry`.
+ * Without them Docker uses anonymous access.
+ */
+export function registryAuth(
+	config: Config,
+	reference: string,
+): Docker.AuthConfig | undefined {
+	const { username, passwordEnvVar } = config.docker.registry;
+	const password = process.env[passwordEnvVar];
+	if (!username || !password) {
+		return undefined;
+	}
+	return { username, password, serveraddress: registryHost(reference) };
+}
+
+/**
+ * Wait for a pull or push to finish. Docker reports failures as progress
+ * entries rather than by failing the stream.
+ */
+function followImageProgress(
+	docker: Docker,
+	stream: NodeJS.ReadableStream,
+): Promise<void> {
+	return new Promise((resolve, reject) => {
+		docker.modem.followProgress(stream, (error: any, output: any[]) => {
+			const failed = output?.find((entry) => entry?.error);
+			if (error || failed) {
+				reject(new Error(error?.message ?? failed.error));
+				return;
+			}
+			resolve();
+		});
+	});
+}
+
+export async function pullImage(
+	docker: Docker,
+	reference: string,
+	auth?: Docker.AuthConfig,
+): Promise<void> {
+	const stream = await docker.pull(reference, { authconfig: auth });
+	await followImageProgress(docker, stream);
+}
+
+/**
+ * Tag `source` as `target` and push it
+ */
+export async function pushImage(
+	docker: Docker,
+	source: string,
+	target: string,
+	auth?: Docker.AuthConfig,
+): Promise<void> {
+	const { repository, tag } = splitImageReference(target);
+	await docker.getImage(source).tag({ repo: repository, tag });
+	const stream = await docker
+		.getImage(repository)
+		.push({ tag, authconfig: auth });
+	await followImageProgress(docker, stream);
+}
+
+/**
+ * Which of the tools a worker needs are not on the image's PATH
+ */
+export async function missingWorkerTools(
+	docker: Docker,
+	image: string,
+): Promise<string[]> {
+	const script = `for tool in ${REQUIRED_WORKER_TOOLS.join(" ")}; do command -v "$tool" >/dev/null 2>&1 || echo "missing:$tool"; done`;
+	const container = await docker.createContainer({
+		Image: image,
+		Entrypoint: ["sh", "-c"],
+		Cmd: [script],
+		Env: [`PATH=${WORKER_PATH}`],
+		Tty: true,
+	});
+
+	try {
+		await container.start();
+		await container.wait();
+		const log = await container.logs({ stdout: true, stderr: true });
+		return log
+			.toString("utf8")
+			.split(/\r?\n/)
+			.filter((line) => line.startsWith("missing:"))
+			.map((line) => line.slice("missing:".length).trim());
+	} finally {
+		await container.remove({ force: true }).catch(() => {});
+	}
+}
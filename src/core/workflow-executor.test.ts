@@ -0,0 +1,776 @@
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PassThrough, Readable } from "node:stream";
+import type Docker from "dockerode";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { cleanupManager } from "../utils/cleanup-manager.js";
+import { type Config, ConfigSchema, DefaultConfig } from "./config-schema.js";
+import type { GitHubClient } from "./github-client.js";
+import { IssueReporter } from "./issue-reporter.js";
+import {
+	CHANGES_BUNDLE_PATH,
+	CHANGES_PATCH_PATH,
+	FAILURE_REASON_PATH,
+	KILL_WORKFLOW_SCRIPT,
+	PARTIAL_PATCH_PATH,
+} from "./result-contract.js";
+import { type RunRecord, RunStore } from "./run-store.js";
+import {
+	WorkflowExecutor,
+	type WorkflowOptions,
+	type WorkflowResults,
+} from "./workflow-executor.js";
+
+/** Private members the tests drive directly */
+interface ExecutorInternals {
+	docker: Docker;
+	github: GitHubClient;
+	reporter?: IssueReporter;
+	runStore: RunStore;
+	workflowResults: WorkflowResults;
+	showProgress(
+		stream: NodeJS.ReadableStream,
+		exec: { inspect(): Promise<{ ExitCode: number }> },
+		container: Docker.Container,
+		oomKillsBefore: number | null,
+	): Promise<void>;
+	verifyQualityChecks(containerId: string): Promise<void>;
+	reportFailure(): Promise<void>;
+	executePhases(execution: { prompt?: string }): Promise<WorkflowResults>;
+	prepareContainer(): Promise<{ containerId: string; containerName: string }>;
+	executeWorkflow(containerId: string): Promise<void>;
+	exportChanges(containerId: string): Promise<void>;
+	loadCiFixTarget(pullNumber: number): Promise<void>;
+	execute(execution: { prompt?: string }): Promise<WorkflowResults>;
+}
+
+interface ExecResult {
+	exitCode?: number;
+	output?: string;
+}
+
+/** A one-file tar archive, as the Docker archive API returns it */
+function tarFile(content: Buffer | string): Buffer {
+	const data = Buffer.from(content);
+	const header = Buffer.alloc(512);
+	header.write("file", 0);
+	header.write(`${data.length.toString(8).padStart(11, "0")}\0`, 124);
+	header.write("0", 156);
+	const padding = Buffer.alloc((512 - (data.length % 512)) % 512);
+	return Buffer.concat([header, data, padding, Buffer.alloc(1024)]);
+}
+
+/**
+ * In-memory container: every exec is recorded and answered by `run`, and
+ * `files` backs the archive API
+ */
+function fakeDocker(
+	run: (cmd: string[]) => ExecResult = () => ({}),
+	files: Record<string, Buffer | string> = {},
+) {
+	const execs: string[][] = [];
+	const state = { stopped: false, removed: false };
+	const container = {
+		id: "container-1",
+		exec: async ({ Cmd }: { Cmd: string[] }) => {
+			execs.push(Cmd);
+			const result = run(Cmd);
+			return {
+				start: async () => {
+					const stream = new PassThrough();
+					stream.end(result.output ?? "");
+					return stream;
+				},
+				inspect: async () => ({ ExitCode: result.exitCode ?? 0 }),
+			};
+		},
+		getArchive: async ({ path }: { path: string }) => {
+			if (files[path] === undefined) {
+				throw Object.assign(new Error("not found"), { statusCode: 404 });
+			}
+			return Readable.from([tarFile(files[path])]);
+		},
+		inspect: async () => ({ State: { Running: !state.stopped } }),
+		stop: async () => {
+			state.stopped = true;
+		},
+		remove: async () => {
+			state.removed = true;
+		},
+	};
+	const docker = {
+		getContainer: () => container,
+		modem: {
+			demuxStream: (
+				stream: NodeJS.ReadableStream,
+				stdout: NodeJS.WritableStream,
+			) => {
+				stream.on("data", (chunk) => stdout.write(chunk));
+			},
+		},
+	} as unknown as Docker;
+
+	return {
+		docker,
+		container: container as unknown as Docker.Container,
+		execs,
+		state,
+	};
+}
+
+/** GitHub client recording every call as `[method, ...args]` */
+function fakeGitHub(
+	methods: Record<string, (...args: unknown[]) => unknown> = {},
+) {
+	const calls: unknown[][] = [];
+	const record =
+		(name: string, answer: (...args: unknown[]) => unknown = () => undefined) =>
+		async (...args: unknown[]) => {
+			calls.push([name, ...args]);
+			return answer(...args);
+		};
+	const github = {
+		createComment: record("createComment", () => ({ id: 7, html_url: "" })),
+		updateComment: record("updateComment"),
+		updateProjectItemStatus: record("updateProjectItemStatus"),
+		...Object.fromEntries(
+			Object.entries(methods).map(([name, answer]) => [
+				name,
+				record(name, answer),
+			]),
+		),
+	};
+
+	return { github: github as unknown as GitHubClient, calls };
+}
+
+describe("WorkflowExecutor", () => {
+	let projectPath: string;
+
+	const createExecutor = (
+		overrides: {
+			workflow?: Partial<Config["workflow"]>;
+			github?: Config["github"];
+		} = {},
+		options: Partial<WorkflowOptions> = {},
+	) => {
+		const config = ConfigSchema.parse({
+			...DefaultConfig,
+			project: { ...DefaultConfig.project, owner: "acme", name: "app" },
+			workflow: { ...DefaultConfig.workflow, ...overrides.workflow },
+			github: overrides.github,
+		});
+		const executor = new WorkflowExecutor(config, {
+			botToken: "token",
+			quiet: true,
+			...options,
+		});
+		const internals = executor as unknown as ExecutorInternals;
+		internals.runStore = new RunStore(projectPath);
+		internals.workflowResults = {
+			runId: "20250101-120000-aaaa",
+			startTime: new Date(),
+			success: false,
+		};
+		return internals;
+	};
+
+	beforeEach(() => {
+		projectPath = mkdtempSync(join(tmpdir(), "workflow-executor-"));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		rmSync(projectPath, { recursive: true, force: true });
+	});
+
+	describe("showProgress", () => {
+		const exec = { inspect: async () => ({ ExitCode: 0 }) };
+
+		beforeEach(() => {
+			vi.useFakeTimers();
+		});
+
+		it("stops the agent at the run timeout and records it", async () => {
+			const executor = createExecutor({ workflow: { timeoutMinutes: 1 } });
+			const { docker, container, execs } = fakeDocker();
+			executor.docker = docker;
+			const stream = new PassThrough();
+
+			const outcome = executor
+				.showProgress(stream, exec, container, null)
+				.catch((error: Error) => error);
+			stream.write("cloning repository\n");
+			await vi.advanceTimersByTimeAsync(60_000);
+
+			expect(await outcome).toEqual(
+				new Error("Agent timed out after 1 minutes"),
+			);
+			expect(executor.workflowResults.timedOut).toBe(true);
+			expect(executor.workflowResults.lastOutput).toBe("cloning repository");
+			expect(execs).toContainEqual(["/bin/bash", "-c", KILL_WORKFLOW_SCRIPT]);
+		});
+
+		it("resets the idle timer whenever the agent prints", async () => {
+			const executor = createExecutor({ workflow: { idleTimeoutMinutes: 1 } });
+			const { docker, container } = fakeDocker();
+			executor.docker = docker;
+			const stream = new PassThrough();
+			let settled = false;
+
+			const outcome = executor
+				.showProgress(stream, exec, container, null)
+				.catch((error: Error) => error)
+				.finally(() => {
+					settled = true;
+				});
+			await vi.advanceTimersByTimeAsync(50_000);
+			stream.write("still working\n");
+			await vi.advanceTimersByTimeAsync(50_000);
+			expect(settled).toBe(false);
+
+			await vi.advanceTimersByTimeAsync(20_000);
+			expect(await outcome).toEqual(
+				new Error("Agent produced no output for 1 minutes"),
+			);
+			expect(executor.workflowResults.timedOut).toBe(true);
+		});
+
+		it("has no time limit unless one is configured", async () => {
+			const executor = createExecutor();
+			const { docker, container } = fakeDocker();
+			executor.docker = docker;
+			const stream = new PassThrough();
+
+			const outcome = executor.showProgress(stream, exec, container, null);
+			await vi.advanceTimersByTimeAsync(2 * 60 * 60_000);
+			stream.end("done\n");
+
+			await expect(outcome).resolves.toBeUndefined();
+			expect(executor.workflowResults.timedOut).toBeUndefined();
+		});
+	});
+
+	describe("verifyQualityChecks", () => {
+		/** Answer the stash like git does when there are leftovers */
+		const withStash =
+			(run: (cmd: string[]) => ExecResult) =>
+			(cmd: string[]): ExecResult =>
+				cmd[1] === "stash"
+					? { output: "Saved working directory and index state" }
+					: run(cmd);
+
+		it("records a passing check", async () => {
+			const executor = createExecutor({
+				workflow: { qualityChecks: ["npm test"] },
+			});
+			const { docker, execs } = fakeDocker(withStash(() => ({ output: "ok" })));
+			executor.docker = docker;
+
+			await executor.verifyQualityChecks("container-1");
+
+			expect(executor.workflowResults.qualityChecks).toEqual({
+				"npm test": {
+					passed: true,
+					exitCode: 0,
+					durationMs: expect.any(Number),
+					outputTail: undefined,
+					verified: true,
+				},
+			});
+			expect(execs).toContainEqual(["/bin/bash", "-c", "npm test"]);
+		});
+
+		it("fails with the tail of a failing check's output", async () => {
+			const executor = createExecutor({
+				workflow: { qualityChecks: ["npm test", "npm run lint"] },
+			});
+			const { docker } = fakeDocker(
+				withStash((cmd) =>
+					cmd[2] === "npm run lint"
+						? { exitCode: 1, output: "\u001b[31msrc/a.ts\u001b[0m\n1 error\n" }
+						: {},
+				),
+			);
+			executor.docker = docker;
+
+			await expect(executor.verifyQualityChecks("container-1")).rejects.toThrow(
+				"Quality checks failed: npm run lint",
+			);
+			expect(executor.workflowResults.qualityChecks?.["npm test"].passed).toBe(
+				true,
+			);
+			expect(
+				executor.workflowResults.qualityChecks?.["npm run lint"],
+			).toMatchObject({
+				passed: false,
+				exitCode: 1,
+				outputTail: "src/a.ts\n1 error",
+			});
+		});
+
+		it("restores the stashed changes when a check throws", async () => {
+			const executor = createExecutor({
+				workflow: { qualityChecks: ["npm test"] },
+			});
+			const { docker, execs } = fakeDocker(
+				withStash((cmd) => {
+					if (cmd[2] === "npm test") {
+						throw new Error("container gone");
+					}
+					return {};
+				}),
+			);
+			executor.docker = docker;
+
+			await expect(executor.verifyQualityChecks("container-1")).rejects.toThrow(
+				"container gone",
+			);
+			expect(execs[0]).toEqual(["git", "stash", "push", "--include-untracked"]);
+			expect(execs.at(-1)).toEqual(["git", "stash", "pop"]);
+		});
+
+		it("leaves the stash alone when there was nothing to save", async () => {
+			const executor = createExecutor({
+				workflow: { qualityChecks: ["npm test"] },
+			});
+			const { docker, execs } = fakeDocker((cmd) =>
+				cmd[1] === "stash" ? { output: "No local changes to save" } : {},
+			);
+			executor.docker = docker;
+
+			await executor.verifyQualityChecks("container-1");
+
+			expect(execs).not.toContainEqual(["git", "stash", "pop"]);
+		});
+	});
+
+	describe("reportFailure", () => {
+		const project = (statusOptions: Record<string, string>) => ({
+			projectId: "PVT_1",
+			statusFieldId: "STATUS",
+			statusOptions,
+		});
+		const failures: Array<[string, Partial<WorkflowResults>]> = [
+			["a failed quality check", { error: "Quality checks failed: npm test" }],
+			[
+				"a timeout",
+				{ error: "Agent timed out after 60 minutes", timedOut: true },
+			],
+			[
+				"running out of memory",
+				{ error: "Agent ran out of memory", oomKilled: true },
+			],
+		];
+
+		it.each(failures)(
+			"parks the issue in Blocked after %s",
+			async (_, failure) => {
+				const executor = createExecutor({
+					github: project({ ready: "READY", blocked: "BLOCKED" }),
+				});
+				const { github, calls } = fakeGitHub();
+				executor.github = github;
+				Object.assign(executor.workflowResults, { issueNumber: 5, ...failure });
+
+				await executor.reportFailure();
+
+				expect(calls[0]).toEqual([
+					"updateProjectItemStatus",
+					5,
+					"PVT_1",
+					"STATUS",
+					"BLOCKED",
+					"issue",
+					"acme",
+					"app",
+				]);
+			},
+		);
+
+		it.each(failures)(
+			"moves the issue back to Ready after %s without a Blocked status",
+			async (_, failure) => {
+				const executor = createExecutor({
+					github: project({ ready: "READY" }),
+				});
+				const { github, calls } = fakeGitHub();
+				executor.github = github;
+				Object.assign(executor.workflowResults, { issueNumber: 5, ...failure });
+
+				await executor.reportFailure();
+
+				expect(calls[0]?.[4]).toBe("READY");
+			},
+		);
+
+		it("explains the failure in a comment on the issue", async () => {
+			const executor = createExecutor({
+				github: project({ ready: "READY", blocked: "BLOCKED" }),
+			});
+			const { github, calls } = fakeGitHub();
+			executor.github = github;
+			Object.assign(executor.workflowResults, {
+				issueNumber: 5,
+				error: "Quality checks failed: npm test",
+				qualityChecks: {
+					"npm test": {
+						passed: false,
+						exitCode: 1,
+						durationMs: 1000,
+						outputTail: "1 failing",
+						verified: true,
+					},
+				},
+			});
+
+			await executor.reportFailure();
+
+			expect(calls[1]).toEqual([
+				"createComment",
+				"acme",
+				"app",
+				5,
+				[
+					"### ❌ Constech Worker run failed",
+					"",
+					"**Error:** Quality checks failed: npm test",
+					"Inspect with `constech-worker runs show 20250101-120000-aaaa`",
+					"",
+					"**Failed quality checks:**",
+					"- `npm test` exited with 1",
+					"",
+					"The issue was moved back to Blocked.",
+				].join("\n"),
+			]);
+		});
+
+		it("finishes the progress comment instead of posting another", async () => {
+			const executor = createExecutor();
+			const { github, calls } = fakeGitHub();
+			executor.github = github;
+			executor.reporter = new IssueReporter(github, "acme", "app", 5);
+			await executor.reporter.start({ baseBranch: "main" });
+			Object.assign(executor.workflowResults, {
+				issueNumber: 5,
+				error: "boom",
+			});
+
+			await executor.reportFailure();
+
+			expect(calls.map(([name]) => name)).toEqual([
+				"createComment",
+				"updateComment",
+			]);
+			expect(calls[1][4]).toContain("**Error:** boom");
+		});
+
+		it("never throws when the status can't be changed", async () => {
+			const executor = createExecutor({ github: project({ ready: "READY" }) });
+			const { github, calls } = fakeGitHub({
+				updateProjectItemStatus: () => {
+					throw new Error("Bad credentials");
+				},
+			});
+			executor.github = github;
+			Object.assign(executor.workflowResults, {
+				issueNumber: 5,
+				error: "boom",
+			});
+
+			await expect(executor.reportFailure()).resolves.toBeUndefined();
+			expect(calls.map(([name]) => name)).toEqual(["updateProjectItemStatus"]);
+		});
+	});
+
+	describe("a failed run", () => {
+		const failingRun = (
+			options: Partial<WorkflowOptions>,
+			files: Record<string, string> = {},
+		) => {
+			const executor = createExecutor({}, options);
+			const fake = fakeDocker(() => ({}), files);
+			executor.docker = fake.docker;
+			executor.prepareContainer = async () => ({
+				containerId: "container-1",
+				containerName: "constech-worker-1",
+			});
+			executor.executeWorkflow = async () => {
+				throw new Error("Agent exited with code 1");
+			};
+			return { executor, ...fake };
+		};
+
+		it("keeps the container and saves the partial work with keep-on-failure", async () => {
+			const patch = "diff --git a/src/a.ts b/src/a.ts\n";
+			const { executor, execs, state } = failingRun(
+				{ keepOnFailure: true },
+				{ [PARTIAL_PATCH_PATH]: patch },
+			);
+
+			await expect(
+				executor.executePhases({ prompt: "fix it" }),
+			).rejects.toThrow("Agent exited with code 1");
+
+			const results = executor.workflowResults;
+			expect(results.keptContainer).toBe(true);
+			expect(state).toEqual({ stopped: true, removed: false });
+			expect(execs.at(-1)?.[2]).toContain(FAILURE_REASON_PATH);
+			expect(results.patchPath).toBe(
+				join(projectPath, ".constech-worker", "runs", `${results.runId}.patch`),
+			);
+			expect(readFileSync(results.patchPath ?? "", "utf8")).toBe(patch);
+		});
+
+		it("removes the container otherwise", async () => {
+			const { executor, state } = failingRun({});
+
+			await expect(
+				executor.executePhases({ prompt: "fix it" }),
+			).rejects.toThrow("Agent exited with code 1");
+
+			expect(executor.workflowResults.keptContainer).toBeUndefined();
+			expect(executor.workflowResults.patchPath).toBeUndefined();
+			expect(state.removed).toBe(true);
+		});
+	});
+
+	describe("exportChanges", () => {
+		const git = (cwd: string, ...args: string[]) =>
+			execFileSync(
+				"git",
+				["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args],
+				{ cwd },
+			)
+				.toString()
+				.trim();
+
+		const exportRun = (
+			output: WorkflowOptions["output"],
+			files: Record<string, Buffer | string>,
+		) => {
+			const executor = createExecutor({}, { output, baseBranch: "main" });
+			const fake = fakeDocker(() => ({}), files);
+			executor.docker = fake.docker;
+			Object.assign(executor.workflowResults, {
+				branchName: "feature/issue-12",
+				commitHash: "abc123",
+			});
+			return { executor, ...fake };
+		};
+
+		it("writes a patch to the run's artifacts", async () => {
+			const patch = "From abc123 Mon Sep 17 00:00:00 2001\n";
+			const { executor, execs } = exportRun("patch", {
+				[CHANGES_PATCH_PATH]: patch,
+			});
+
+			await executor.exportChanges("container-1");
+
+			expect(execs[0]).toEqual([
+				"/bin/bash",
+				"-c",
+				`git format-patch --stdout 'origin/main..feature/issue-12' > ${CHANGES_PATCH_PATH}`,
+			]);
+			const { outputPath, runId } = executor.workflowResults;
+			expect(outputPath).toBe(
+				join(projectPath, ".constech-worker", "runs", `${runId}.patch`),
+			);
+			expect(readFileSync(outputPath ?? "", "utf8")).toBe(patch);
+		});
+
+		it("writes a bundle to the run's artifacts", async () => {
+			const { executor, execs } = exportRun("bundle", {
+				[CHANGES_BUNDLE_PATH]: "# v2 git bundle\n",
+			});
+
+			await executor.exportChanges("container-1");
+
+			expect(execs[0][2]).toBe(
+				`git bundle create ${CHANGES_BUNDLE_PATH} 'origin/main..feature/issue-12'`,
+			);
+			expect(executor.workflowResults.outputPath).toMatch(/\.bundle$/);
+		});
+
+		it("creates a local branch from the bundle without touching the working tree", async () => {
+			git(projectPath, "init", "-q", "-b", "main");
+			writeFileSync(join(projectPath, "README.md"), "app\n");
+			git(projectPath, "add", "README.md");
+			git(projectPath, "commit", "-q", "-m", "Initial commit");
+
+			// The agent's clone, with one commit on the work branch
+			const workspace = mkdtempSync(join(tmpdir(), "workflow-workspace-"));
+			try {
+				git(workspace, "clone", "-q", projectPath, ".");
+				git(workspace, "checkout", "-q", "-b", "feature/issue-12");
+				writeFileSync(join(workspace, "fix.ts"), "export {};\n");
+				git(workspace, "add", "fix.ts");
+				git(workspace, "commit", "-q", "-m", "Fix the issue");
+				git(
+					workspace,
+					"bundle",
+					"create",
+					"-q",
+					"changes.bundle",
+					"origin/main..feature/issue-12",
+				);
+				const { executor } = exportRun("local-branch", {
+					[CHANGES_BUNDLE_PATH]: readFileSync(
+						join(workspace, "changes.bundle"),
+					),
+				});
+				vi.spyOn(process, "cwd").mockReturnValue(projectPath);
+
+				await executor.exportChanges("container-1");
+
+				expect(executor.workflowResults.localBranch).toBe("feature/issue-12");
+				expect(git(projectPath, "rev-parse", "feature/issue-12")).toBe(
+					git(workspace, "rev-parse", "HEAD"),
+				);
+				expect(git(projectPath, "branch", "--show-current")).toBe("main");
+				expect(git(projectPath, "status", "--porcelain")).toBe("");
+			} finally {
+				vi.restoreAllMocks();
+				rmSync(workspace, { recursive: true, force: true });
+			}
+		});
+
+		it("refuses to overwrite an existing local branch", async () => {
+			git(projectPath, "init", "-q", "-b", "main");
+			git(projectPath, "commit", "-q", "--allow-empty", "-m", "Initial commit");
+			git(projectPath, "branch", "feature/issue-12");
+			const { executor } = exportRun("local-branch", {
+				[CHANGES_BUNDLE_PATH]: "# v2 git bundle\n",
+			});
+			vi.spyOn(process, "cwd").mockReturnValue(projectPath);
+
+			try {
+				await expect(executor.exportChanges("container-1")).rejects.toThrow(
+					"Local branch feature/issue-12 already exists",
+				);
+			} finally {
+				vi.restoreAllMocks();
+			}
+		});
+	});
+
+	describe("loadCiFixTarget", () => {
+		const pullRequest = {
+			number: 40,
+			title: "Fix the parser",
+			body: "",
+			html_url: "https://github.com/acme/app/pull/40",
+			state: "open",
+			headRef: "feature/issue-12",
+			baseRef: "main",
+			headSha: "abc123",
+			sameRepository: true,
+		};
+		const failingCheck = {
+			name: "test",
+			conclusion: "failure",
+			log: "1 failing",
+		};
+
+		const priorAttempts = async (store: RunStore, count: number) => {
+			for (let attempt = 0; attempt < count; attempt++) {
+				await store.save({
+					runId: `20241231-12000${attempt}-bbbb`,
+					startTime: new Date(),
+					endTime: new Date(),
+					success: false,
+					ciFixPullRequest: 40,
+				});
+			}
+		};
+
+		it("collects the failing checks of the pull request", async () => {
+			const executor = createExecutor();
+			await priorAttempts(executor.runStore, 2);
+			const { github, calls } = fakeGitHub({
+				getPullRequest: () => pullRequest,
+				getCheckStatus: () => ({ failing: [failingCheck], pending: ["lint"] }),
+			});
+			executor.github = github;
+
+			await executor.loadCiFixTarget(40);
+
+			expect(calls).toContainEqual(["getCheckStatus", "acme", "app", "abc123"]);
+			expect(executor.workflowResults).toMatchObject({
+				ciFixPullRequest: 40,
+				failingChecks: ["test"],
+				prNumber: 40,
+			});
+		});
+
+		it("stops once the pull request had the maximum number of attempts", async () => {
+			const executor = createExecutor({ workflow: { maxCiFixAttempts: 2 } });
+			await priorAttempts(executor.runStore, 2);
+			const { github, calls } = fakeGitHub();
+			executor.github = github;
+
+			await expect(executor.loadCiFixTarget(40)).rejects.toThrow(
+				"Pull request #40 already had 2 CI fix attempt(s) (workflow.maxCiFixAttempts is 2)",
+			);
+			expect(calls).toEqual([]);
+		});
+
+		it("doesn't count the current run or other pull requests", async () => {
+			const executor = createExecutor({ workflow: { maxCiFixAttempts: 1 } });
+			await executor.runStore.save({
+				...executor.workflowResults,
+				runId: executor.workflowResults.runId ?? "",
+				ciFixPullRequest: 40,
+			});
+			await executor.runStore.save({
+				runId: "20250101-110000-bbbb",
+				startTime: new Date(),
+				endTime: new Date(),
+				success: false,
+				ciFixPullRequest: 41,
+			});
+			const { github } = fakeGitHub({
+				getPullRequest: () => pullRequest,
+				getCheckStatus: () => ({ failing: [failingCheck], pending: [] }),
+			});
+			executor.github = github;
+
+			await expect(executor.loadCiFixTarget(40)).resolves.toBeUndefined();
+		});
+
+		it("refuses a pull request whose checks are still running", async () => {
+			const executor = createExecutor();
+			const { github } = fakeGitHub({
+				getPullRequest: () => pullRequest,
+				getCheckStatus: () => ({ failing: [], pending: ["test"] }),
+			});
+			executor.github = github;
+
+			await expect(executor.loadCiFixTarget(40)).rejects.toThrow(
+				"Pull request #40 is still running checks (test)",
+			);
+		});
+	});
+
+	describe("execute", () => {
+		it("closes the run record when the process is interrupted", async () => {
+			const executor = createExecutor();
+			let record: RunRecord | undefined;
+			executor.executePhases = async () => {
+				// What the signal handler does before it exits the process
+				await cleanupManager.executeCleanup();
+				record = (await executor.runStore.list())[0];
+				return executor.workflowResults;
+			};
+
+			await executor.execute({ prompt: "fix it" });
+
+			expect(record).toMatchObject({
+				status: "failed",
+				error: "Worker process exited before the run finished",
+			});
+		});
+	});
+});
@@ -0,0 +1,270 @@
+import chalk from "chalk";
+import { Command } from "commander";
+import { attachCommand } from "./commands/attach.js";
+import { configureCommand } from "./commands/configure.js";
+import { containersCommand } from "./commands/containers.js";
+import { dispatchCommand } from "./commands/dispatch.js";
+import { doctorCommand } from "./commands/doctor.js";
+import { imageCommand } from "./commands/image.js";
+import { initCommand } from "./commands/init.js";
+import { planCommand } from "./commands/plan.js";
+import { reviewCommand } from "./commands/review.js";
+import { runsCommand } from "./commands/runs.js";
+import { serveCommand } from "./commands/serve.js";
+import { shellCommand } from "./commands/shell.js";
+import { stopCommand } from "./commands/stop.js";
+import { triageCommand } from "./commands/triage.js";
+import { watchCommand } from "./commands/watch.js";
+
+/**
+ * The constech-worker command line, without the process setup in cli.ts
+ */
+export function createProgram(): Command {
+	const program = new Command();
+
+	program
+		.name("constech-worker")
+		.description(
+			"Autonomous GitHub project management with Claude Code integration",
+		)
+		.version("1.0.0")
+		.helpOption("-h, --help", "Display help for command")
+		.addHelpText(
+			"after",
+			`
+Examples:
+  ${chalk.cyan("constech-worker init")}                    Initialize project configuration
+  ${chalk.cyan("constech-worker dispatch --issue 42")}    Work on GitHub issue #42
+  ${chalk.cyan("constech-worker dispatch --issues 12,15,31 --concurrency 2")}
+  ${chalk.cyan('constech-worker dispatch --prompt "Add dark mode" --create-issue')}
+  ${chalk.cyan("constech-worker plan --issue 42")}        Split issue #42 into ordered sub-issues
+  ${chalk.cyan("constech-worker review --pr 57")}         Review pull request #57
+  ${chalk.cyan("constech-worker watch")}                  Dispatch workers for "Ready" issues continuously
+  ${chalk.cyan("constech-worker attach <run>")}           Follow a running worker's output
+  ${chalk.cyan("constech-worker doctor")}                 Check system requirements
+  ${chalk.cyan("constech-worker containers --clean")}     Clean up orphaned containers
+  ${chalk.cyan("constech-worker image push --tag ghcr.io/acme/worker")}
+`,
+		);
+
+	// Initialize project configuration
+	program
+		.command("init")
+		.description("Initialize Constech Worker in the current project")
+		.option("--force", "Overwrite existing configuration")
+		.option("--config <path>", "Custom configuration file path")
+		.action(initCommand);
+
+	// Main dispatch command
+	program
+		.command("dispatch")
+		.description("Dispatch autonomous development worker")
+		.option("--issue <number>", "GitHub issue number to work on")
+		.option("--issues <numbers>", "Comma-separated issue numbers to work on")
+		.option("--label <name>", "Work on all open issues with this label")
+		.option(
+			"--concurrency <number>",
+			"Maximum parallel workers for --issues/--label",
+		)
+		.option("--prompt <text>", "Custom development task prompt")
+		.option(
+			"--pr <number>",
+			"Address the unresolved review feedback on an existing pull request",
+		)
+		.option("--fix-ci <number>", "Fix the failing CI checks on a pull request")
+		.option("--create-issue", "Create GitHub issue from prompt first")
+		.option("--title <text>", "Title for the created issue")
+		.option(
+			"--issue-label <names>",
+			"Comma-separated labels for the created issue",
+		)
+		.option(
+			"--milestone <name>",
+			"Milestone title or number for the created issue",
+		)
+		.option(
+			"--assignee <usernames>",
+			"Comma-separated assignees for the created issue (default: the bot)",
+		)
+		.option(
+			"--draft-criteria",
+			"Have the agent draft acceptance criteria before creating the issue",
+		)
+		.option("--reviewer <username>", "Override default reviewer")
+		.option("--base <branch>", "Base branch for PR (default: staging)")
+		.option("--follow", "Stream the agent's output live")
+		.option(
+			"--timeout <minutes>",
+			"Stop the agent after this many minutes (default: workflow.timeoutMinutes)",
+		)
+		.option(
+			"--keep-on-failure",
+			"Leave the container stopped instead of removing it when the run fails",
+		)
+		.option(
+			"--output <mode>",
+			"Deliver the commits as a pr, patch, bundle or local-branch (default: pr)",
+		)
+		.option("--force", "Skip validation checks")
+		.option("--dry-run", "Show what would be executed without running")
+		.action(dispatchCommand);
+
+	// Break an issue into ordered sub-issues
+	program
+		.command("plan")
+		.description(
+			"Have the agent split an issue into ordered sub-issues, optionally working through them",
+		)
+		.requiredOption("--issue <number>", "GitHub issue number to plan")
+		.option("--max-subtasks <number>", "Most sub-issues to create (default: 6)")
+		.option(
+			"--dispatch",
+			"Dispatch the sub-issues one after another, each on the previous branch",
+		)
+		.option("--reviewer <username>", "Override default reviewer")
+		.option("--base <branch>", "Branch to plan against and start from")
+		.option("--dry-run", "Show the plan without creating issues")
+		.action(planCommand);
+
+	// Label, size and clarify new issues
+	program
+		.command("triage")
+		.description(
+			"Have the agent classify, size and label Backlog issues, moving actionable ones to Ready",
+		)
+		.option("--issue <number>", "Triage only this issue")
+		.option(
+			"--unlabeled",
+			"Triage unlabeled issues instead of the project's Backlog column",
+		)
+		.option(
+			"--limit <number>",
+			"Most issues to triage in one run (default: 10)",
+		)
+		.option("--dry-run", "Show the triage without changing any issues")
+		.action(triageCommand);
+
+	// Review someone else's pull request
+	program
+		.command("review")
+		.description(
+			"Have the agent review a pull request and post inline comments and a verdict",
+		)
+		.requiredOption("--pr <number>", "Pull request number to review")
+		.option("--dry-run", "Print the review without posting it")
+		.action(reviewCommand);
+
+	// Long-running worker daemon
+	program
+		.command("watch")
+		.description(
+			"Poll the GitHub Project for ready issues and dispatch workers for them",
+		)
+		.option("--interval <seconds>", "Poll interval in seconds")
+		.option("--concurrency <number>", "Maximum concurrent workers")
+		.option(
+			"--label <name>",
+			"Also pick up open issues with this trigger label",
+		)
+		.option("--reviewer <username>", "Override default reviewer")
+		.option("--base <branch>", "Base branch for PRs (default: staging)")
+		.option("--once", "Poll once, wait for the workers and exit")
+		.action(watchCommand);
+
+	// Webhook receiver
+	program
+		.command("serve")
+		.description(
+			"Receive GitHub webhooks and dispatch workers from labels and comments",
+		)
+		.option("--port <number>", "Port to listen on")
+		.option("--concurrency <number>", "Maximum concurrent workers")
+		.option("--reviewer <username>", "Override default reviewer")
+		.option("--base <branch>", "Base branch for PRs (default: staging)")
+		.option("--no-verify", "Skip signature verification (local testing only)")
+		.action(serveCommand);
+
+	// System health check
+	program
+		.command("doctor")
+		.description("Check system requirements and configuration health")
+		.option("--fix", "Attempt to fix detected issues")
+		.option("--verbose", "Show detailed diagnostic information")
+		.action(doctorCommand);
+
+	// Configuration management
+	program
+		.command("configure")
+		.description("Manage project configuration")
+		.argument(
+			"[key]",
+			"Configuration key to view/edit (e.g., github.projectId)",
+		)
+		.argument("[value]", "New value to set")
+		.option("--list", "List all configuration values")
+		.option("--reset", "Reset to default configuration")
+		.option("--validate", "Validate current configuration")
+		.action(configureCommand);
+
+	// Run history
+	program
+		.command("runs")
+		.description("Inspect the history of worker runs")
+		.argument("[action]", "list | show | logs | prune", "list")
+		.argument("[id]", "Run id (or unique prefix) for show/logs")
+		.option("--limit <number>", "Number of runs to list (default: 20)")
+		.option("--tail <lines>", "Only print the last lines of the log")
+		.option("--keep <number>", "Number of runs prune keeps (default: 100)")
+		.action(runsCommand);
+
+	// In-flight workers
+	program
+		.command("attach")
+		.description("Follow the live output of a running worker")
+		.argument("<run>", "Run id, container name, or unique prefix")
+		.option("--raw", "Show agent output without rendering stream-json events")
+		.action(attachCommand);
+
+	program
+		.command("shell")
+		.description("Open a shell in a running worker's workspace")
+		.argument("<run>", "Run id, container name, or unique prefix")
+		.action(shellCommand);
+
+	program
+		.command("stop")
+		.description("Cancel a running worker")
+		.argument("<run>", "Run id, container name, or unique prefix")
+		.option("--wait <seconds>", "How long to wait for cleanup (default: 60)")
+		.option("--force", "Remove the container immediately")
+		.action(stopCommand);
+
+	// Container management
+	program
+		.command("containers")
+		.description("Manage Docker containers used by constech-worker")
+		.option("--all", "Show all containers (including stopped)")
+		.option("--clean", "Remove orphaned constech-worker containers")
+		.option("--force", "Force removal of running containers (use with --clean)")
+		.option(
+			"--prune-images",
+			"Remove worker images built from an outdated Dockerfile or devcontainer",
+		)
+		.action(containersCommand);
+
+	// Worker image
+	program
+		.command("image")
+		.description("Build the worker image, or push it for others to reuse")
+		.argument("<action>", "build | push")
+		.option("--tag <image>", "Image to push as (default: docker.customImage)")
+		.option("--force", "Rebuild even when the image is up to date")
+		.action(imageCommand);
+
+	program.configureHelp({
+		sortSubcommands: true,
+		subcommandTerm: (cmd) => `${cmd.name()} ${cmd.usage()}`,
+	});
+
+	return program;
+}
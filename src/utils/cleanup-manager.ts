@@ -5,6 +5,7 @@ export type CleanupFunction = () => Promise<void> | void;
 class CleanupManager {
 	private static instance: CleanupManager;
 	private cleanupFunctions: CleanupFunction[] = [];
+	private drainFunctions: CleanupFunction[] = [];
 	private isShuttingDown = false;
 	private signalHandlersRegistered = false;
 
@@ -26,6 +27,21 @@ class CleanupManager {
 		}
 	}
 
+	/**
+	 * Register a function that lets in-flight work finish on shutdown.
+	 * Drain functions run (and are awaited) before cleanup functions.
+	 */
+	registerDrain(drain: CleanupFunction): void {
+		this.drainFunctions.push(drain);
+	}
+
+	unregisterDrain(drain: CleanupFunction): void {
+		const index = this.drainFunctions.indexOf(drain);
+		if (index > -1) {
+			this.drainFunctions.splice(index, 1);
+		}
+	}
+
 	registerSignalHandlers(): void {
 		if (this.signalHandlersRegistered) {
 			return;
@@ -42,6 +58,7 @@ class CleanupManager {
 			logger.info(`\n📴 Received ${signal}, cleaning up...`);
 
 			try {
+				await this.executeDrain();
 				await this.executeCleanup();
 				logger.success("✅ Cleanup completed successfully");
 				process.exit(0);
@@ -77,6 +94,18 @@ class CleanupManager {
 		this.signalHandlersRegistered = true;
 	}
 
+	async executeDrain(): Promise<void> {
+		if (this.drainFunctions.length === 0) {
+			return;
+		}
+
+		logger.debug(
+			`Executing ${this.drainFunctions.length} drain functions (signal again to force)...`,
+		);
+
+		await Promise.allSettled(this.drainFunctions.map(async (drain) => drain()));
+	}
+
 	async executeCleanup(): Promise<void> {
 		if (this.cleanupFunctions.length === 0) {
 			logger.debug("No cleanup functions registered");
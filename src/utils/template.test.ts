@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { renderTemplate } from "./template.js";
+
+describe("renderTemplate", () => {
+	it("fills placeholders and collapses lines left empty", () => {
+		const body = renderTemplate("{{summary}}\n\n{{ closes }}\n\n{{commits}}", {
+			summary: "Adds a thing",
+			closes: undefined,
+			commits: "- abc1234 feat: thing",
+		});
+
+		expect(body).toBe("Adds a thing\n\n- abc1234 feat: thing");
+	});
+
+	it("leaves unknown placeholders untouched", () => {
+		expect(
+			renderTemplate("{{titel}} #{{issueNumber}}", { issueNumber: 7 }),
+		).toBe("{{titel}} #7");
+	});
+});
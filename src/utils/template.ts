@@ -0,0 +1,22 @@
+export type TemplateValues = Record<string, string | number | undefined>;
+
+/**
+ * Fill `{{placeholder}}` markers from values. Known placeholders without a
+ * value render empty; unknown ones are left as-is so typos stay visible.
+ *
+ * Pull request templates get: title, issueNumber, issueTitle, prompt, branch,
+ * baseBranch, summary, closes, commits, qualityChecks, runId
+ *
+ * Issue templates get: title, type, description, prompt, acceptanceCriteria
+ */
+export function renderTemplate(
+	template: string,
+	values: TemplateValues,
+): string {
+	return template
+		.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+			key in values ? String(values[key] ?? "") : match,
+		)
+		.replace(/\n{3,}/g, "\n\n")
+		.trim();
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { WorkerPool } from "./worker-pool.js";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("WorkerPool", () => {
+	it("never runs more tasks than the concurrency limit", async () => {
+		const pool = new WorkerPool(2);
+		let inFlight = 0;
+		let peak = 0;
+
+		await Promise.all(
+			[1, 2, 3, 4, 5].map((n) =>
+				pool.run(async () => {
+					inFlight++;
+					peak = Math.max(peak, inFlight);
+					await delay(5);
+					inFlight--;
+					return n;
+				}),
+			),
+		);
+
+		expect(peak).toBe(2);
+	});
+
+	it("keeps running other tasks when one rejects", async () => {
+		const pool = new WorkerPool(1);
+
+		const results = await Promise.allSettled([
+			pool.run(async () => {
+				throw new Error("boom");
+			}),
+			pool.run(async () => "ok"),
+		]);
+
+		expect(results[0].status).toBe("rejected");
+		expect(results[1]).toEqual({ status: "fulfilled", value: "ok" });
+		await expect(pool.onIdle()).resolves.toBeUndefined();
+	});
+});
@@ -0,0 +1,95 @@
+export type WorkerTask<T> = () => Promise<T>;
+
+interface QueuedTask {
+	task: WorkerTask<unknown>;
+	resolve: (value: unknown) => void;
+	reject: (reason: unknown) => void;
+}
+
+/**
+ * Runs async tasks with a bounded number of them in flight at once.
+ * A rejected task only settles its own promise; the pool keeps going.
+ */
+export class WorkerPool {
+	private concurrency: number;
+	private queue: QueuedTask[] = [];
+	private running = 0;
+	private idleWaiters: (() => void)[] = [];
+
+	constructor(concurrency: number) {
+		this.concurrency = Math.max(1, Math.floor(concurrency) || 1);
+	}
+
+	/**
+	 * Queue a task and resolve with its result once it has run
+	 */
+	run<T>(task: WorkerTask<T>): Promise<T> {
+		return new Promise<T>((resolve, reject) => {
+			this.queue.push({
+				task,
+				resolve: resolve as (value: unknown) => void,
+				reject,
+			});
+			this.next();
+		});
+	}
+
+	/**
+	 * Number of tasks currently executing
+	 */
+	get active(): number {
+		return this.running;
+	}
+
+	/**
+	 * Number of tasks waiting for a free slot
+	 */
+	get pending(): number {
+		return this.queue.length;
+	}
+
+	/**
+	 * Number of tasks that could be queued and start immediately
+	 */
+	get available(): number {
+		return Math.max(0, this.concurrency - this.running - this.queue.length);
+	}
+
+	/**
+	 * Resolve once nothing is running or queued
+	 */
+	onIdle(): Promise<void> {
+		if (this.running === 0 && this.queue.length === 0) {
+			return Promise.resolve();
+		}
+		return new Promise((resolve) => this.idleWaiters.push(resolve));
+	}
+
+	private next(): void {
+		while (this.running < this.concurrency && this.queue.length > 0) {
+			const item = this.queue.shift();
+			if (!item) {
+				break;
+			}
+
+			this.running++;
+			item
+				.task()
+				.then(item.resolve, item.reject)
+				.finally(() => {
+					this.running--;
+					this.next();
+					this.notifyIfIdle();
+				});
+		}
+	}
+
+	private notifyIfIdle(): void {
+		if (this.running === 0 && this.queue.length === 0) {
+			const waiters = this.idleWaiters.splice(0);
+			for (const resolve of waiters) {
+				resolve();
+			}
+		}
+	}
+}